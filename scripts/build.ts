@@ -7,7 +7,10 @@ import process from 'node:process'
 import { bold, cyan, dim, green, magenta, red, yellow } from 'ansis'
 
 // File rename configuration
-const RENAME_MAP = [{ from: 'index.d.mts', to: 'index.d.ts' }] as const
+const RENAME_MAP = [
+  { from: 'index.d.mts', to: 'index.d.ts' },
+  { from: 'node.d.mts', to: 'node.d.ts' }
+] as const
 
 const distDir = join(process.cwd(), 'dist')
 
@@ -1,4 +1,12 @@
-import type { BrowserStorageType, StorageAdapter } from './types'
+import type {
+  BrowserStorageType,
+  MemoryStorageOptions,
+  StorageAdapter
+} from './types'
+
+import { isQuotaExceededError } from './util'
+
+const PROBE_KEY = '__storadapt_probe__'
 
 export const createBrowserStorageAdapter = (
   type: BrowserStorageType
@@ -14,7 +22,183 @@ export const createBrowserStorageAdapter = (
     setItem: (key: string, value: string) => storage.setItem(key, value),
     removeItem: (key: string) => storage.removeItem(key),
     clear: () => storage.clear(),
-    key: storage.key,
+    key: (index: number) => storage.key(index),
     length: () => storage.length
   }
 }
+
+/**
+ * Check that browser storage can be written: it may be missing (SSR),
+ * throw on access (sandboxed iframes) or reject every write
+ * (Safari private mode)
+ */
+export const isBrowserStorageAvailable = (
+  type: BrowserStorageType
+): boolean => {
+  let storage: Storage | undefined
+
+  try {
+    if (typeof window === 'undefined') return false
+
+    storage = window[type]
+    if (!storage) return false
+
+    storage.setItem(PROBE_KEY, PROBE_KEY)
+    storage.removeItem(PROBE_KEY)
+    return true
+  } catch (error) {
+    // A full storage still holds its values
+    return isQuotaExceededError(error) && !!storage && storage.length > 0
+  }
+}
+
+/**
+ * In-memory adapter behaving like Web Storage, for tests and SSR
+ * Keys are enumerated in insertion order and values are coerced to strings.
+ * Writes exceeding `maxSize` throw a `QuotaExceededError`
+ */
+export const createMemoryStorageAdapter = (
+  initial?: Record<string, string>,
+  options?: MemoryStorageOptions
+): StorageAdapter => {
+  const maxSize = options?.maxSize ?? Infinity
+  const store = new Map<string, string>()
+  let size = 0
+
+  // Web Storage counts UTF-16 code units of keys and values
+  const sizeOf = (key: string, value: string) => (key.length + value.length) * 2
+
+  const setItem = (key: string, value: string) => {
+    key = String(key)
+    value = String(value)
+
+    const previous = store.get(key)
+    const nextSize =
+      size -
+      (previous === undefined ? 0 : sizeOf(key, previous)) +
+      sizeOf(key, value)
+
+    if (nextSize > maxSize) {
+      throw new DOMException(
+        `Setting the value of "${key}" exceeded the quota`,
+        'QuotaExceededError'
+      )
+    }
+
+    store.set(key, value)
+    size = nextSize
+  }
+
+  const removeItem = (key: string) => {
+    key = String(key)
+
+    const previous = store.get(key)
+    if (previous === undefined) return
+
+    store.delete(key)
+    size -= sizeOf(key, previous)
+  }
+
+  for (const [key, value] of Object.entries(initial ?? {})) {
+    setItem(key, value)
+  }
+
+  return {
+    getItem: (key: string) => store.get(String(key)) ?? null,
+    setItem,
+    removeItem,
+    clear: () => {
+      store.clear()
+      size = 0
+    },
+    key: (index: number) => {
+      if (index < 0 || index >= store.size) return null
+      return Array.from(store.keys())[index]
+    },
+    length: () => store.size,
+    persistent: false
+  }
+}
+
+/**
+ * Scope an adapter to keys prefixed with `${namespace}:`
+ * `length`/`key` only see the scoped keys and `clear` only removes them
+ */
+export const createNamespacedAdapter = (
+  adapter: StorageAdapter,
+  namespace: string
+): StorageAdapter => {
+  const prefix = `${namespace}:`
+
+  const ownKeys = (): string[] => {
+    const keys: string[] = []
+    const length = adapter.length()
+
+    for (let i = 0; i < length; i++) {
+      const key = adapter.key(i)
+      if (key !== null && key.startsWith(prefix)) keys.push(key)
+    }
+
+    return keys
+  }
+
+  return {
+    getItem: (key: string) => adapter.getItem(prefix + key),
+    setItem: (key: string, value: string) =>
+      adapter.setItem(prefix + key, value),
+    removeItem: (key: string) => adapter.removeItem(prefix + key),
+    clear: () => ownKeys().forEach((key) => adapter.removeItem(key)),
+    key: (index: number) => ownKeys()[index]?.slice(prefix.length) ?? null,
+    length: () => ownKeys().length,
+    persistent: adapter.persistent
+  }
+}
+
+export interface OverlayAdapter extends StorageAdapter {
+  /**
+   * Staged raw values by key, null for removed keys
+   */
+  readonly changes: Map<string, string | null>
+}
+
+/**
+ * Stage writes on top of an adapter without touching it
+ * Reads see the staged changes, which can be committed later
+ */
+export const createOverlayAdapter = (
+  adapter: StorageAdapter
+): OverlayAdapter => {
+  const changes = new Map<string, string | null>()
+
+  const visibleKeys = (): string[] => {
+    const keys: string[] = []
+    const length = adapter.length()
+
+    for (let i = 0; i < length; i++) {
+      const key = adapter.key(i)
+      if (key !== null && changes.get(key) !== null) keys.push(key)
+    }
+
+    for (const [key, value] of changes) {
+      if (value !== null && !keys.includes(key)) keys.push(key)
+    }
+
+    return keys
+  }
+
+  return {
+    changes,
+    getItem: (key: string) =>
+      changes.has(key) ? changes.get(key)! : adapter.getItem(key),
+    setItem: (key: string, value: string) => {
+      changes.set(key, value)
+    },
+    removeItem: (key: string) => {
+      changes.set(key, null)
+    },
+    clear: () => visibleKeys().forEach((key) => changes.set(key, null)),
+    key: (index: number) => visibleKeys()[index] ?? null,
+    length: () => visibleKeys().length,
+    persistent: adapter.persistent
+  }
+}
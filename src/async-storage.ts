@@ -0,0 +1,302 @@
+// async-storage.ts
+import type {
+  AsyncStorageAdapter,
+  AsyncStoradaptOptions,
+  DeepOperation,
+  DeepPathInfo,
+  EntryMeta,
+  GetOptions,
+  KeyPath,
+  Serializer,
+  SetOptions,
+  StoredEntry
+} from './types'
+
+import { StoradaptError } from './errors'
+import { superjsonSerializer } from './serializer'
+import {
+  deserialize,
+  errorLogger,
+  getDeep,
+  isArrayIndex,
+  isExpired,
+  matchesRootType,
+  resolveExpiresAt,
+  serialize,
+  setDeep,
+  splitKey,
+  stringifyPath,
+  unwrapEntry,
+  wrapEntry
+} from './util'
+
+/**
+ * Promise-based counterpart of `Storadapt` for asynchronous adapters
+ * (IndexedDB, remote key-value stores, fs/promises, ...)
+ */
+export class AsyncStoradapt {
+  private adapter: AsyncStorageAdapter
+  private serializer: Serializer
+
+  constructor(adapter: AsyncStorageAdapter, options?: AsyncStoradaptOptions) {
+    this.adapter = adapter
+    this.serializer = options?.serializer ?? superjsonSerializer
+  }
+
+  /**
+   * Get number of stored keys
+   */
+  async length(): Promise<number> {
+    try {
+      return await this.adapter.length()
+    } catch (error) {
+      errorLogger(`AsyncStoradapt.length error`, error)
+      return 0
+    }
+  }
+
+  /**
+   * Get key name by index (same as localStorage.key)
+   */
+  async key<T = any>(index: number): Promise<T | null> {
+    try {
+      const rawValue = await this.adapter.key(index)
+
+      return rawValue as T
+    } catch (error) {
+      errorLogger(`AsyncStoradapt.key error`, error)
+      return null
+    }
+  }
+
+  /**
+   * Get stored value with automatic JSON deserialization
+   * Supports deep path: 'user.infos.0.name'
+   */
+  async get<T = any>(key: KeyPath, options?: GetOptions<T>): Promise<T | null> {
+    try {
+      const { storageKey, pathSegments } = splitKey(key)
+
+      if (pathSegments.length === 0) {
+        const entry = await this._readEntry<T>(storageKey)
+
+        if (entry === null) {
+          return options?.defaultValue ?? null
+        }
+
+        return entry.value
+      }
+
+      // Handle deep path
+      const pathInfo = await this._parseDeepPath(
+        storageKey,
+        pathSegments,
+        'get'
+      )
+      if (!pathInfo) {
+        return options?.defaultValue ?? null
+      }
+
+      const { rootValue } = pathInfo
+
+      return getDeep(rootValue, pathSegments, {
+        defaultValue: options?.defaultValue
+      }) as T
+    } catch (error) {
+      if (error instanceof StoradaptError) throw error
+      errorLogger(
+        `AsyncStoradapt.get error for key "${stringifyPath(key)}"`,
+        error
+      )
+      return options?.defaultValue ?? null
+    }
+  }
+
+  /**
+   * Set storage value with automatic object serialization
+   * Supports deep path: 'user.infos.0.name'
+   */
+  async set(key: KeyPath, value: any, options?: SetOptions): Promise<void> {
+    try {
+      const { storageKey, pathSegments } = splitKey(key)
+
+      const expiresAt = resolveExpiresAt(options)
+
+      if (pathSegments.length === 0) {
+        await this._saveToStorage(storageKey, value, { expiresAt })
+        return
+      }
+
+      // Handle deep path
+      const pathInfo = await this._parseDeepPath(
+        storageKey,
+        pathSegments,
+        'set'
+      )
+      if (!pathInfo) return
+
+      const { rootValue } = pathInfo
+
+      setDeep(rootValue, pathSegments, value, {
+        createPath: options?.createPath
+      })
+
+      const meta =
+        expiresAt === undefined
+          ? pathInfo.meta
+          : { ...pathInfo.meta, expiresAt }
+      await this._saveToStorage(storageKey, rootValue, meta)
+    } catch (error) {
+      if (error instanceof StoradaptError) throw error
+      errorLogger(
+        `AsyncStoradapt.set error for key "${stringifyPath(key)}"`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Remove specified key or deep path
+   * - Storage key only: removes entire key
+   * - Deep path: removes specific property/index
+   */
+  async remove(key: KeyPath): Promise<void> {
+    try {
+      const { storageKey, pathSegments } = splitKey(key)
+
+      if (pathSegments.length === 0) {
+        await this.adapter.removeItem(storageKey)
+        return
+      }
+
+      // Handle deep path
+      const pathInfo = await this._parseDeepPath(
+        storageKey,
+        pathSegments,
+        'remove'
+      )
+      if (!pathInfo) return
+
+      const { rootValue, meta } = pathInfo
+
+      setDeep(rootValue, pathSegments, undefined, {
+        remove: true,
+        createPath: false
+      })
+
+      await this._saveToStorage(storageKey, rootValue, meta)
+    } catch (error) {
+      if (error instanceof StoradaptError) throw error
+      errorLogger(
+        `AsyncStoradapt.remove error for key "${stringifyPath(key)}"`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Check if key exists
+   */
+  async has(key: KeyPath): Promise<boolean> {
+    try {
+      const { storageKey, pathSegments } = splitKey(key)
+
+      if (pathSegments.length === 0) {
+        return (await this._readEntry(storageKey)) !== null
+      }
+
+      return (await this.get(key)) !== null
+    } catch (error) {
+      if (error instanceof StoradaptError) throw error
+      errorLogger(
+        `AsyncStoradapt.has error for key "${stringifyPath(key)}"`,
+        error
+      )
+      return false
+    }
+  }
+
+  /**
+   * Clear all storage
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.adapter.clear()
+    } catch (error) {
+      errorLogger(`AsyncStoradapt.clear error`, error)
+    }
+  }
+
+  // ==================== Private Methods ====================
+
+  /**
+   * Load the root value of a deep path
+   * Mirrors `Storadapt._parseDeepPath`
+   */
+  private async _parseDeepPath(
+    storageKey: string,
+    pathSegments: string[],
+    operation: DeepOperation
+  ): Promise<DeepPathInfo | null> {
+    const entry = await this._readEntry(storageKey)
+
+    if (entry === null) {
+      if (operation === 'get') return null
+      if (operation === 'remove') {
+        console.warn(`Key "${storageKey}" does not exist`)
+        return null
+      }
+      const rootValue = isArrayIndex(pathSegments[0]) ? [] : {}
+      return { storageKey, pathSegments, rootValue, meta: {} }
+    }
+
+    const { value: rootValue, meta } = entry
+
+    if (!matchesRootType(rootValue, pathSegments[0])) {
+      const expectedType = isArrayIndex(pathSegments[0]) ? 'array' : 'object'
+      console.warn(
+        `Type mismatch: expected ${expectedType} for key "${storageKey}", got ${typeof rootValue}`
+      )
+      return null
+    }
+
+    return { storageKey, pathSegments, rootValue, meta }
+  }
+
+  /**
+   * Read and unwrap a stored entry
+   * Expired entries are removed and reported as missing
+   */
+  private async _readEntry<T = any>(
+    key: string
+  ): Promise<StoredEntry<T> | null> {
+    const rawValue = await this.adapter.getItem(key)
+
+    if (rawValue === null) {
+      return null
+    }
+
+    const entry = unwrapEntry<T>(deserialize(rawValue, this.serializer))
+
+    if (isExpired(entry.meta)) {
+      await this.adapter.removeItem(key)
+      return null
+    }
+
+    return entry
+  }
+
+  /**
+   * Save value (and its metadata) to storage
+   */
+  private async _saveToStorage(
+    key: string,
+    value: any,
+    meta?: EntryMeta
+  ): Promise<void> {
+    await this.adapter.setItem(
+      key,
+      serialize(wrapEntry(value, meta), this.serializer)
+    )
+  }
+}
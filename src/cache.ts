@@ -0,0 +1,92 @@
+import type { CacheOptions, CacheStats, StoredEntry } from './types'
+
+const DEFAULT_MAX_ENTRIES = 100
+
+export interface EntryCache {
+  /**
+   * Cached entry of a storage key, counted as a hit or a miss
+   */
+  get: (key: string) => StoredEntry | undefined
+  /**
+   * Cache an entry decoded from a stored string of length `size`
+   */
+  set: (key: string, entry: StoredEntry, size: number) => void
+  delete: (key: string) => void
+  clear: () => void
+  /**
+   * Cached entries by key, not counted as reads
+   */
+  entries: () => [string, StoredEntry][]
+  stats: () => CacheStats
+}
+
+/**
+ * Least recently used cache of decoded entries, bounded by
+ * number of keys and size of the stored strings
+ */
+export const createEntryCache = (options?: CacheOptions): EntryCache => {
+  const maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES
+  const maxSize = options?.maxSize ?? Infinity
+
+  // Map iteration order doubles as recency order, oldest first
+  const entries = new Map<string, { entry: StoredEntry; size: number }>()
+  let size = 0
+  let hits = 0
+  let misses = 0
+  let evictions = 0
+
+  const remove = (key: string) => {
+    const cached = entries.get(key)
+    if (!cached) return
+
+    entries.delete(key)
+    size -= cached.size
+  }
+
+  return {
+    get: (key) => {
+      const cached = entries.get(key)
+      if (!cached) {
+        misses++
+        return undefined
+      }
+
+      hits++
+      entries.delete(key)
+      entries.set(key, cached)
+      return cached.entry
+    },
+    set: (key, entry, entrySize) => {
+      remove(key)
+      if (maxEntries < 1 || entrySize > maxSize) return
+
+      entries.set(key, { entry, size: entrySize })
+      size += entrySize
+
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries && size <= maxSize) break
+
+        remove(oldest)
+        evictions++
+      }
+    },
+    delete: remove,
+    entries: () =>
+      Array.from(entries, ([key, cached]): [string, StoredEntry] => [
+        key,
+        cached.entry
+      ]),
+    clear: () => {
+      entries.clear()
+      size = 0
+    },
+    stats: () => ({
+      hits,
+      misses,
+      evictions,
+      entries: entries.size,
+      size,
+      hitRate: hits + misses === 0 ? 0 : hits / (hits + misses)
+    })
+  }
+}
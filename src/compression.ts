@@ -0,0 +1,240 @@
+import type {
+  CompressedStorageAdapter,
+  CompressionOptions,
+  CompressionStats,
+  StorageAdapter
+} from './types'
+
+/**
+ * Marks compressed values, and escapes plain values that happen
+ * to start with a marker
+ */
+const COMPRESSED_PREFIX = 'lz:'
+const ESCAPED_PREFIX = 'lz-raw:'
+const DEFAULT_THRESHOLD = 1024
+
+/**
+ * Each output character carries 15 bits, offset by 32:
+ * codes stay in 32..32799, far from control characters and surrogates
+ */
+const BITS_PER_CHAR = 15
+const CHAR_OFFSET = 32
+
+/**
+ * Wrap an adapter so that values longer than `threshold` are LZ-compressed
+ * into a UTF-16-safe string, as long as that makes them smaller
+ */
+export const withCompression = (
+  adapter: StorageAdapter,
+  options?: CompressionOptions
+): CompressedStorageAdapter => {
+  const threshold = options?.threshold ?? DEFAULT_THRESHOLD
+  const stats = { compressedCount: 0, originalSize: 0, compressedSize: 0 }
+
+  const encode = (value: string): string => {
+    if (value.length >= threshold) {
+      const compressed = COMPRESSED_PREFIX + compress(value)
+
+      if (compressed.length < value.length) {
+        stats.compressedCount++
+        stats.originalSize += value.length
+        stats.compressedSize += compressed.length
+        return compressed
+      }
+    }
+
+    const needsEscape =
+      value.startsWith(COMPRESSED_PREFIX) || value.startsWith(ESCAPED_PREFIX)
+
+    return needsEscape ? ESCAPED_PREFIX + value : value
+  }
+
+  const decode = (stored: string): string => {
+    if (stored.startsWith(ESCAPED_PREFIX)) {
+      return stored.slice(ESCAPED_PREFIX.length)
+    }
+
+    if (stored.startsWith(COMPRESSED_PREFIX)) {
+      const value = decompress(stored.slice(COMPRESSED_PREFIX.length))
+      if (value === null) {
+        throw new Error('Corrupted compressed value')
+      }
+      return value
+    }
+
+    return stored
+  }
+
+  return {
+    getItem: (key) => {
+      const stored = adapter.getItem(key)
+      return stored === null ? null : decode(stored)
+    },
+    setItem: (key, value) => adapter.setItem(key, encode(value)),
+    removeItem: (key) => adapter.removeItem(key),
+    clear: () => adapter.clear(),
+    length: () => adapter.length(),
+    key: (index) => adapter.key(index),
+    persistent: adapter.persistent,
+    getCompressionStats: (): CompressionStats => ({
+      ...stats,
+      ratio: stats.originalSize ? stats.compressedSize / stats.originalSize : 1
+    })
+  }
+}
+
+/**
+ * LZW compression with a growing code width (the lz-string algorithm)
+ * Codes 0 and 1 introduce an 8 or 16 bit literal, 2 ends the stream
+ */
+function compress(input: string): string {
+  const dictionary = new Map<string, number>()
+  const pendingLiterals = new Set<string>()
+  const output: string[] = []
+  let dictSize = 3
+  let numBits = 2
+  let enlargeIn = 2
+  let buffer = 0
+  let bufferBits = 0
+
+  const writeBits = (bits: number, value: number) => {
+    for (let i = 0; i < bits; i++) {
+      buffer = (buffer << 1) | (value & 1)
+      value >>= 1
+
+      if (++bufferBits === BITS_PER_CHAR) {
+        output.push(String.fromCharCode(buffer + CHAR_OFFSET))
+        buffer = 0
+        bufferBits = 0
+      }
+    }
+  }
+
+  const countCode = () => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** numBits
+      numBits++
+    }
+  }
+
+  const writePhrase = (phrase: string) => {
+    if (pendingLiterals.has(phrase)) {
+      const code = phrase.charCodeAt(0)
+      if (code < 256) {
+        writeBits(numBits, 0)
+        writeBits(8, code)
+      } else {
+        writeBits(numBits, 1)
+        writeBits(16, code)
+      }
+      countCode()
+      pendingLiterals.delete(phrase)
+    } else {
+      writeBits(numBits, dictionary.get(phrase)!)
+    }
+    countCode()
+  }
+
+  let phrase = ''
+  for (const char of input.split('')) {
+    if (!dictionary.has(char)) {
+      dictionary.set(char, dictSize++)
+      pendingLiterals.add(char)
+    }
+
+    const extended = phrase + char
+    if (dictionary.has(extended)) {
+      phrase = extended
+      continue
+    }
+
+    writePhrase(phrase)
+    dictionary.set(extended, dictSize++)
+    phrase = char
+  }
+
+  if (phrase !== '') {
+    writePhrase(phrase)
+  }
+
+  writeBits(numBits, 2)
+
+  // Flush the last, partially filled character
+  if (bufferBits > 0) {
+    writeBits(BITS_PER_CHAR - bufferBits, 0)
+  }
+
+  return output.join('')
+}
+
+/**
+ * Inverse of `compress`
+ * @returns null when the input is corrupted
+ */
+function decompress(input: string): string | null {
+  const dictionary: string[] = ['', '', '']
+  const result: string[] = []
+  let dictSize = 3
+  let numBits = 2
+  let enlargeIn = 2
+  let index = 0
+  let buffer = 0
+  let bufferBits = 0
+
+  const readBits = (bits: number): number | null => {
+    let value = 0
+    for (let i = 0; i < bits; i++) {
+      if (bufferBits === 0) {
+        if (index >= input.length) return null
+        buffer = input.charCodeAt(index++) - CHAR_OFFSET
+        bufferBits = BITS_PER_CHAR
+      }
+      bufferBits--
+      value |= ((buffer >> bufferBits) & 1) << i
+    }
+    return value
+  }
+
+  const countCode = () => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** numBits
+      numBits++
+    }
+  }
+
+  let previous: string | null = null
+
+  while (true) {
+    let code = readBits(numBits)
+    if (code === null) return null
+
+    if (code === 2) {
+      return result.join('')
+    }
+
+    if (code === 0 || code === 1) {
+      const charCode = readBits(code === 0 ? 8 : 16)
+      if (charCode === null) return null
+
+      dictionary[dictSize] = String.fromCharCode(charCode)
+      code = dictSize++
+      countCode()
+    }
+
+    let entry: string
+    if (code < dictSize && dictionary[code]) {
+      entry = dictionary[code]
+    } else if (code === dictSize && previous !== null) {
+      entry = previous + previous[0]
+    } else {
+      return null
+    }
+
+    result.push(entry)
+    if (previous !== null) {
+      dictionary[dictSize++] = previous + entry[0]
+    }
+    previous = entry
+    countCode()
+  }
+}
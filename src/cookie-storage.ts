@@ -0,0 +1,246 @@
+import type { CookieStorageOptions, StorageAdapter } from './types'
+
+const DEFAULT_MAX_COOKIE_SIZE = 4000
+const DEFAULT_PREFIX = 'storadapt.'
+
+/**
+ * Separates the chunk number from the key in chunk cookie names, and marks
+ * chunked values. Encoded names and values never contain it
+ */
+const CHUNK_SEPARATOR = '|'
+const CHUNKED_VALUE = /^\|(\d+)$/
+
+/**
+ * Cookies read from and written to a browser or an HTTP exchange
+ */
+interface CookieJar {
+  read: () => Map<string, string>
+  write: (name: string, value: string | null, header: string) => void
+}
+
+/**
+ * Storage adapter over cookies, so that values can be read on the server
+ * - In browsers, cookies are read from and written to `document.cookie`
+ * - On the server, pass the `Cookie` header of the request as
+ *   `cookieHeader` and send the headers given to `onSetCookie`
+ *   as `Set-Cookie` headers of the response
+ *
+ * Cookie names are the percent-encoded keys behind `prefix`: other
+ * cookies of the page or request are never listed nor cleared.
+ * Values are percent-encoded too; values longer than `maxCookieSize`
+ * are split across several cookies
+ */
+export const createCookieStorageAdapter = (
+  options?: CookieStorageOptions
+): StorageAdapter => {
+  const maxCookieSize = options?.maxCookieSize ?? DEFAULT_MAX_COOKIE_SIZE
+  const prefix = encodeName(options?.prefix ?? DEFAULT_PREFIX)
+  const jar = createCookieJar(options)
+
+  const cookieName = (key: string) => prefix + encodeName(String(key))
+
+  /**
+   * Write a cookie, or expire it when `value` is null
+   */
+  const writeCookie = (name: string, value: string | null) => {
+    const maxAge = value === null ? 0 : options?.maxAge
+    jar.write(
+      name,
+      value,
+      serializeCookie(name, value ?? '', maxAge, options ?? {})
+    )
+  }
+
+  /**
+   * Number of chunk cookies currently holding the value of `name`
+   */
+  const chunkCount = (cookies: Map<string, string>, name: string) => {
+    const match = cookies.get(name)?.match(CHUNKED_VALUE)
+    return match ? Number(match[1]) : 0
+  }
+
+  const getItem = (key: string): string | null => {
+    const cookies = jar.read()
+    const name = cookieName(key)
+    const head = cookies.get(name)
+
+    if (head === undefined) return null
+
+    const count = chunkCount(cookies, name)
+    if (count === 0) return decode(head)
+
+    let encoded = ''
+    for (let i = 1; i <= count; i++) {
+      const chunk = cookies.get(chunkName(name, i))
+      // A chunk expired or was dropped by the browser
+      if (chunk === undefined) return null
+      encoded += chunk
+    }
+
+    return decode(encoded)
+  }
+
+  const setItem = (key: string, value: string) => {
+    const cookies = jar.read()
+    const name = cookieName(key)
+    const encoded = encodeURIComponent(String(value))
+    const previousCount = chunkCount(cookies, name)
+
+    let count = 0
+    if (name.length + 1 + encoded.length <= maxCookieSize) {
+      writeCookie(name, encoded)
+    } else {
+      // Leave room for the longest possible chunk number
+      const chunkSize =
+        maxCookieSize - chunkName(name, encoded.length).length - 1
+      if (chunkSize < 1) {
+        throw new RangeError(`Cookie name for key "${key}" is too long`)
+      }
+
+      for (let start = 0; start < encoded.length; start += chunkSize) {
+        count++
+        writeCookie(
+          chunkName(name, count),
+          encoded.slice(start, start + chunkSize)
+        )
+      }
+      writeCookie(name, `${CHUNK_SEPARATOR}${count}`)
+    }
+
+    // Expire chunks left over from a longer value
+    for (let i = count + 1; i <= previousCount; i++) {
+      writeCookie(chunkName(name, i), null)
+    }
+  }
+
+  const removeItem = (key: string) => {
+    const cookies = jar.read()
+    const name = cookieName(key)
+    if (!cookies.has(name)) return
+
+    const count = chunkCount(cookies, name)
+    for (let i = 1; i <= count; i++) {
+      writeCookie(chunkName(name, i), null)
+    }
+    writeCookie(name, null)
+  }
+
+  /**
+   * Keys of the cookies owned by the adapter, except value chunks
+   */
+  const keys = () =>
+    [...jar.read().keys()]
+      .filter(
+        (name) => name.startsWith(prefix) && !name.includes(CHUNK_SEPARATOR)
+      )
+      .map((name) => decode(name.slice(prefix.length)))
+
+  return {
+    getItem,
+    setItem,
+    removeItem,
+    clear: () => keys().forEach(removeItem),
+    key: (index: number) => keys()[index] ?? null,
+    length: () => keys().length
+  }
+}
+
+function createCookieJar(options?: CookieStorageOptions): CookieJar {
+  const isServer =
+    options?.cookieHeader !== undefined || options?.onSetCookie !== undefined
+
+  if (isServer) {
+    const cookies = parseCookieHeader(options?.cookieHeader ?? '')
+
+    return {
+      read: () => cookies,
+      write: (name, value, header) => {
+        if (value === null) {
+          cookies.delete(name)
+        } else {
+          cookies.set(name, value)
+        }
+        options?.onSetCookie?.(header)
+      }
+    }
+  }
+
+  if (typeof document === 'undefined') {
+    throw new TypeError(
+      'document.cookie is not available in this environment, pass cookieHeader and onSetCookie'
+    )
+  }
+
+  return {
+    read: () => parseCookieHeader(document.cookie),
+    write: (_name, _value, header) => {
+      document.cookie = header
+    }
+  }
+}
+
+/**
+ * Parse a `Cookie` header (or `document.cookie`) into raw values by name
+ * The first cookie of a name wins, as it has the most specific path
+ */
+function parseCookieHeader(header: string): Map<string, string> {
+  const cookies = new Map<string, string>()
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=')
+    if (index === -1) continue
+
+    const name = pair.slice(0, index).trim()
+    if (name && !cookies.has(name)) {
+      cookies.set(name, pair.slice(index + 1).trim())
+    }
+  }
+
+  return cookies
+}
+
+function serializeCookie(
+  name: string,
+  value: string,
+  maxAge: number | undefined,
+  options: CookieStorageOptions
+): string {
+  const { path = '/', domain, sameSite = 'lax' } = options
+  // Browsers reject `SameSite=None` cookies without `Secure`
+  const secure = options.secure ?? sameSite === 'none'
+
+  let cookie = `${name}=${value}; Path=${path}`
+  if (domain) cookie += `; Domain=${domain}`
+  if (maxAge !== undefined) cookie += `; Max-Age=${Math.floor(maxAge)}`
+  cookie += `; SameSite=${sameSite[0].toUpperCase()}${sameSite.slice(1)}`
+  if (secure) cookie += '; Secure'
+
+  return cookie
+}
+
+function chunkName(name: string, index: number): string {
+  return `${name}${CHUNK_SEPARATOR}${index}`
+}
+
+/**
+ * Percent-encode a key into a valid cookie name
+ * `encodeURIComponent` leaves `(` and `)` as is, which names may not contain
+ */
+function encodeName(key: string): string {
+  return encodeURIComponent(key).replace(
+    /[()]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+/**
+ * Decode a percent-encoded name or value
+ * Cookies set by other code may not be valid percent-encoding
+ */
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text)
+  } catch {
+    return text
+  }
+}
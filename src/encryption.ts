@@ -0,0 +1,339 @@
+import type {
+  AsyncStorageAdapter,
+  EncryptedStorageAdapter,
+  EncryptionKey,
+  EncryptionOptions,
+  StorageAdapter
+} from './types'
+
+import { StoradaptDecryptionError } from './errors'
+
+/**
+ * Prefix of encrypted values (and of hashed key names)
+ */
+const PAYLOAD_PREFIX = 'enc:v1:'
+const KEY_PREFIX = 'enc:'
+const IV_LENGTH = 12
+const PBKDF2_ITERATIONS = 100_000
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+interface ResolvedKey {
+  aes: CryptoKey
+  hmac: CryptoKey | null
+}
+
+interface DecryptedEntry {
+  name: string
+  value: string
+  keyIndex: number
+}
+
+/**
+ * Wrap an adapter so that values are encrypted at rest with AES-GCM (WebCrypto,
+ * also available as `globalThis.crypto` in Node.js).
+ * WebCrypto is asynchronous, so the wrapper is an `AsyncStorageAdapter`:
+ * use it with `AsyncStoradapt`, it cannot back a synchronous `Storadapt`.
+ */
+export const withEncryption = (
+  adapter: StorageAdapter | AsyncStorageAdapter,
+  options: EncryptionOptions
+): EncryptedStorageAdapter => {
+  const { encryptKeys = false, salt = 'storadapt' } = options
+  const materials = [options.key, ...(options.previousKeys ?? [])]
+
+  if (encryptKeys && materials.some(isCryptoKey)) {
+    throw new TypeError(
+      'encryptKeys requires passphrases or raw key bytes, not CryptoKey objects'
+    )
+  }
+
+  let keysPromise: Promise<ResolvedKey[]> | null = null
+  const getKeys = () => {
+    keysPromise ??= Promise.all(
+      materials.map((material) => resolveKey(material, salt, encryptKeys))
+    )
+    return keysPromise
+  }
+
+  /**
+   * Storage key holding `name` when encrypted with the given key
+   */
+  const storageKeyFor = async (name: string, key: ResolvedKey) => {
+    if (!key.hmac) return name
+
+    const signature = await getSubtle().sign(
+      'HMAC',
+      key.hmac,
+      encoder.encode(name)
+    )
+    return KEY_PREFIX + toBase64(new Uint8Array(signature))
+  }
+
+  /**
+   * Candidate storage keys for `name`, one per known key
+   */
+  const storageKeysFor = async (name: string) => {
+    const keys = await getKeys()
+    const storageKeys = await Promise.all(
+      keys.map((key) => storageKeyFor(name, key))
+    )
+    return [...new Set(storageKeys)]
+  }
+
+  const encrypt = async (storageKey: string, name: string, value: string) => {
+    const [key] = await getKeys()
+    const iv = getCrypto().getRandomValues(new Uint8Array(IV_LENGTH))
+    const plaintext = encryptKeys ? JSON.stringify([name, value]) : value
+
+    const ciphertext = await getSubtle().encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(storageKey) },
+      key.aes,
+      encoder.encode(plaintext)
+    )
+
+    return (
+      PAYLOAD_PREFIX + toBase64(concatBytes(iv, new Uint8Array(ciphertext)))
+    )
+  }
+
+  /**
+   * Decrypt a stored payload, trying the current key first
+   * @param name - Expected key name, checked when key names are hashed
+   */
+  const decrypt = async (
+    storageKey: string,
+    payload: string,
+    name?: string
+  ): Promise<DecryptedEntry> => {
+    const label = name ?? storageKey
+
+    if (!payload.startsWith(PAYLOAD_PREFIX)) {
+      throw new StoradaptDecryptionError(label, 'value is not encrypted')
+    }
+
+    let bytes: Uint8Array
+    try {
+      bytes = fromBase64(payload.slice(PAYLOAD_PREFIX.length))
+    } catch {
+      throw new StoradaptDecryptionError(label, 'malformed payload')
+    }
+
+    const iv = bytes.slice(0, IV_LENGTH)
+    const ciphertext = bytes.slice(IV_LENGTH)
+    const keys = await getKeys()
+
+    for (let keyIndex = 0; keyIndex < keys.length; keyIndex++) {
+      let plaintext: string
+      try {
+        const decrypted = await getSubtle().decrypt(
+          { name: 'AES-GCM', iv, additionalData: encoder.encode(storageKey) },
+          keys[keyIndex].aes,
+          ciphertext
+        )
+        plaintext = decoder.decode(decrypted)
+      } catch {
+        continue // Wrong key, try the next one
+      }
+
+      if (!encryptKeys) {
+        return { name: storageKey, value: plaintext, keyIndex }
+      }
+
+      const [storedName, value] = JSON.parse(plaintext) as [string, string]
+      if (name !== undefined && storedName !== name) {
+        throw new StoradaptDecryptionError(label, 'key name mismatch')
+      }
+      return { name: storedName, value, keyIndex }
+    }
+
+    throw new StoradaptDecryptionError(label, 'no matching key')
+  }
+
+  /**
+   * Find the stored payload for `name` under any known key
+   */
+  const findEntry = async (name: string) => {
+    for (const storageKey of await storageKeysFor(name)) {
+      const payload = await adapter.getItem(storageKey)
+      if (payload !== null) return { storageKey, payload }
+    }
+    return null
+  }
+
+  const getItem = async (name: string): Promise<string | null> => {
+    const found = await findEntry(name)
+    if (!found) return null
+
+    const { value } = await decrypt(found.storageKey, found.payload, name)
+    return value
+  }
+
+  const setItem = async (name: string, value: string): Promise<void> => {
+    const [current, ...stale] = await storageKeysFor(name)
+
+    await adapter.setItem(current, await encrypt(current, name, value))
+
+    // Drop copies stored under the hash of a previous key
+    for (const storageKey of stale) {
+      await adapter.removeItem(storageKey)
+    }
+  }
+
+  const removeItem = async (name: string): Promise<void> => {
+    for (const storageKey of await storageKeysFor(name)) {
+      await adapter.removeItem(storageKey)
+    }
+  }
+
+  const key = async (index: number): Promise<string | null> => {
+    const storageKey = await adapter.key(index)
+    if (storageKey === null || !encryptKeys) return storageKey
+
+    const payload = await adapter.getItem(storageKey)
+    if (payload === null) return null
+
+    return (await decrypt(storageKey, payload)).name
+  }
+
+  const rotateKeys = async (): Promise<number> => {
+    const length = await adapter.length()
+    const storageKeys: string[] = []
+    for (let i = 0; i < length; i++) {
+      const storageKey = await adapter.key(i)
+      if (storageKey !== null) storageKeys.push(storageKey)
+    }
+
+    let rotated = 0
+    for (const storageKey of storageKeys) {
+      const payload = await adapter.getItem(storageKey)
+      // Values of other code sharing the storage
+      if (payload === null || !payload.startsWith(PAYLOAD_PREFIX)) continue
+
+      const entry = await decrypt(storageKey, payload)
+      if (entry.keyIndex === 0) continue
+
+      // Written first, setItem then drops the copy under the previous hash
+      await setItem(entry.name, entry.value)
+      rotated++
+    }
+
+    return rotated
+  }
+
+  return {
+    getItem,
+    setItem,
+    removeItem,
+    clear: async () => adapter.clear(),
+    length: async () => adapter.length(),
+    key,
+    rotateKeys
+  }
+}
+
+function getCrypto(): Crypto {
+  if (typeof globalThis.crypto?.subtle === 'undefined') {
+    throw new TypeError('WebCrypto is not available in this environment')
+  }
+  return globalThis.crypto
+}
+
+function getSubtle(): SubtleCrypto {
+  return getCrypto().subtle
+}
+
+function isCryptoKey(material: EncryptionKey): material is CryptoKey {
+  return typeof material !== 'string' && !(material instanceof Uint8Array)
+}
+
+/**
+ * Derive AES-GCM (and HMAC, for hashed key names) keys from key material
+ */
+async function resolveKey(
+  material: EncryptionKey,
+  salt: string,
+  withHmac: boolean
+): Promise<ResolvedKey> {
+  if (isCryptoKey(material)) {
+    return { aes: material, hmac: null }
+  }
+
+  const subtle = getSubtle()
+  let secret = material as Uint8Array
+
+  if (typeof material === 'string') {
+    const passphrase = await subtle.importKey(
+      'raw',
+      encoder.encode(material),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    )
+    const bits = await subtle.deriveBits(
+      {
+        name: 'PBKDF2',
+        hash: 'SHA-256',
+        salt: encoder.encode(salt),
+        iterations: PBKDF2_ITERATIONS
+      },
+      passphrase,
+      256
+    )
+    secret = new Uint8Array(bits)
+  }
+
+  const base = await subtle.importKey(
+    'raw',
+    secret as Uint8Array<ArrayBuffer>,
+    'HKDF',
+    false,
+    ['deriveKey']
+  )
+  const hkdf = (info: string) => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: new Uint8Array(0),
+    info: encoder.encode(info)
+  })
+
+  const aes = await subtle.deriveKey(
+    hkdf('storadapt:aes-gcm'),
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+  const hmac = withHmac
+    ? await subtle.deriveKey(
+        hkdf('storadapt:hmac'),
+        base,
+        { name: 'HMAC', hash: 'SHA-256', length: 256 },
+        false,
+        ['sign']
+      )
+    : null
+
+  return { aes, hmac }
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length)
+  result.set(a)
+  result.set(b, a.length)
+  return result
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
@@ -0,0 +1,73 @@
+import type { JsonPatchOperation, SchemaIssue } from './types'
+
+/**
+ * Base class for errors that Storadapt surfaces to the caller
+ * instead of logging them
+ */
+export class StoradaptError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'StoradaptError'
+  }
+}
+
+/**
+ * Thrown when a value fails its schema and the policy is `throw`
+ */
+export class StoradaptValidationError extends StoradaptError {
+  readonly key: string
+  readonly issues: readonly SchemaIssue[]
+
+  constructor(key: string, issues: readonly SchemaIssue[]) {
+    const details = issues.map((issue) => issue.message).join('; ')
+    super(`Invalid value for key "${key}": ${details}`)
+    this.name = 'StoradaptValidationError'
+    this.key = key
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when an encrypted value cannot be decrypted with any known key
+ */
+export class StoradaptDecryptionError extends StoradaptError {
+  readonly key: string
+
+  constructor(key: string, reason?: string) {
+    super(
+      `Failed to decrypt value for key "${key}"${reason ? `: ${reason}` : ''}`
+    )
+    this.name = 'StoradaptDecryptionError'
+    this.key = key
+  }
+}
+
+/**
+ * Thrown when a write exceeds the storage quota and no entry can be evicted
+ */
+export class StorageQuotaError extends StoradaptError {
+  readonly key: string
+
+  constructor(key: string, options?: ErrorOptions) {
+    super(`Storage quota exceeded while writing key "${key}"`, options)
+    this.name = 'StorageQuotaError'
+    this.key = key
+  }
+}
+
+/**
+ * Thrown when a JSON Patch operation fails, nothing is written
+ */
+export class StoradaptPatchError extends StoradaptError {
+  readonly index: number
+  readonly operation: JsonPatchOperation
+
+  constructor(index: number, operation: JsonPatchOperation, reason: string) {
+    super(
+      `JSON Patch operation ${index} (${operation.op} "${operation.path}") failed: ${reason}`
+    )
+    this.name = 'StoradaptPatchError'
+    this.index = index
+    this.operation = operation
+  }
+}
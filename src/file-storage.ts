@@ -0,0 +1,315 @@
+import type { FileStorageOptions, StorageAdapter } from './types'
+
+import { randomBytes } from 'node:crypto'
+import {
+  closeSync,
+  fsyncSync,
+  linkSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync
+} from 'node:fs'
+import { dirname, join } from 'node:path'
+
+const LOCK_FILE = '.lock'
+const JSON_FILE = 'storage.json'
+const DEFAULT_LOCK_TIMEOUT = 5000
+// Locks older than this were left behind by a crashed process, shorter than
+// the default timeout so that waiting writers take them over
+const STALE_LOCK_AGE = 2000
+const LOCK_RETRY_INTERVAL = 10
+const MAX_FILE_NAME_LENGTH = 255
+// A lone `%` is never produced by percent-encoding
+const EMPTY_KEY_NAME = '%'
+
+/**
+ * Windows device names, reserved whatever the extension
+ */
+const RESERVED_NAME = /^(?:con|prn|aux|nul|com\d|lpt\d)$/
+
+/**
+ * Raw key/value access of one storage mode
+ * Writes run while the lock is held
+ */
+interface FileStore {
+  read: (key: string) => string | null
+  /**
+   * All keys, sorted
+   */
+  keys: () => string[]
+  write: (key: string, value: string | null) => void
+  clear: () => void
+}
+
+/**
+ * Storage adapter for Node.js keeping values in `dir`
+ * - `file-per-key`: one file per key, named after the percent-encoded key
+ * - `single-json`: every key in one `storage.json` file
+ *
+ * Writes go to a temporary file renamed over the target, so readers never
+ * see partial values. Writers of several processes take turns through a
+ * lock file. Keys are enumerated in sorted order
+ */
+export const createFileStorageAdapter = (
+  dir: string,
+  options?: FileStorageOptions
+): StorageAdapter => {
+  const { mode = 'file-per-key', lockTimeout = DEFAULT_LOCK_TIMEOUT } =
+    options ?? {}
+
+  mkdirSync(dir, { recursive: true })
+
+  const store =
+    mode === 'single-json' ? createJsonStore(dir) : createFilePerKeyStore(dir)
+
+  const lockPath = join(dir, LOCK_FILE)
+
+  const withLock = (write: () => void) => {
+    acquireLock(lockPath, lockTimeout)
+    try {
+      write()
+    } finally {
+      unlinkSync(lockPath)
+    }
+  }
+
+  return {
+    getItem: (key: string) => store.read(String(key)),
+    setItem: (key: string, value: string) =>
+      withLock(() => store.write(String(key), String(value))),
+    removeItem: (key: string) => withLock(() => store.write(String(key), null)),
+    clear: () => withLock(() => store.clear()),
+    key: (index: number) => store.keys()[index] ?? null,
+    length: () => store.keys().length
+  }
+}
+
+function createFilePerKeyStore(dir: string): FileStore {
+  const keys = () =>
+    readdirSync(dir)
+      // Temporary and lock files start with a dot, encoded keys never do
+      .filter((name) => !name.startsWith('.'))
+      .map(decodeKey)
+      .sort()
+
+  return {
+    read: (key) => readOptional(join(dir, encodeKey(key))),
+    keys,
+    write: (key, value) => {
+      const path = join(dir, encodeKey(key))
+
+      if (value === null) {
+        removeOptional(path)
+      } else {
+        writeAtomic(path, value)
+      }
+    },
+    clear: () => {
+      for (const key of keys()) removeOptional(join(dir, encodeKey(key)))
+    }
+  }
+}
+
+function createJsonStore(dir: string): FileStore {
+  const path = join(dir, JSON_FILE)
+
+  // Parsed content, reused while the file is unchanged
+  let snapshot: {
+    version: string
+    entries: Map<string, string>
+    keys: string[]
+  } | null = null
+
+  const load = () => {
+    let version: string
+    try {
+      // Every write renames a new file into place, changing the inode
+      const { ino, mtimeMs, size } = statSync(path)
+      version = `${ino}:${mtimeMs}:${size}`
+    } catch (error) {
+      if (isMissingFile(error)) return { entries: new Map(), keys: [] }
+      throw error
+    }
+
+    if (snapshot?.version !== version) {
+      const entries = new Map<string, string>(
+        Object.entries(JSON.parse(readFileSync(path, 'utf-8')))
+      )
+      snapshot = { version, entries, keys: [...entries.keys()].sort() }
+    }
+
+    return snapshot
+  }
+
+  const save = (entries: Map<string, string>) => {
+    const sorted = [...entries].sort(([a], [b]) => (a < b ? -1 : 1))
+    writeAtomic(path, JSON.stringify(Object.fromEntries(sorted)))
+  }
+
+  return {
+    read: (key) => load().entries.get(key) ?? null,
+    keys: () => load().keys,
+    write: (key, value) => {
+      const entries = new Map(load().entries)
+
+      if (value === null) {
+        if (!entries.delete(key)) return
+      } else {
+        entries.set(key, value)
+      }
+
+      save(entries)
+    },
+    clear: () => removeOptional(path)
+  }
+}
+
+/**
+ * Map a key to a file name that is safe on every platform:
+ * only lowercase letters, digits, `-` and `_` are kept, everything else
+ * (uppercase letters included, for case-insensitive file systems) is
+ * percent-encoded
+ */
+function encodeKey(key: string): string {
+  if (key === '') return EMPTY_KEY_NAME
+
+  let name = encodeURIComponent(key).replace(
+    /%[\dA-F]{2}|[A-Z.!~*'()]/g,
+    (match) => (match.startsWith('%') ? match : escapeChar(match))
+  )
+
+  if (RESERVED_NAME.test(name)) {
+    name = escapeChar(name[0]) + name.slice(1)
+  }
+
+  if (name.length > MAX_FILE_NAME_LENGTH) {
+    throw new RangeError(
+      `Key "${key.slice(0, 32)}..." is too long for a file name, use the single-json mode`
+    )
+  }
+
+  return name
+}
+
+function decodeKey(name: string): string {
+  return name === EMPTY_KEY_NAME ? '' : decodeURIComponent(name)
+}
+
+function escapeChar(char: string): string {
+  return `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`
+}
+
+/**
+ * Write through a temporary file renamed over `path`
+ * Storage full errors are reported as quota errors
+ */
+function writeAtomic(path: string, content: string): void {
+  const tempPath = join(
+    dirname(path),
+    `.${process.pid}-${randomBytes(6).toString('hex')}.tmp`
+  )
+
+  try {
+    const fd = openSync(tempPath, 'w')
+    try {
+      writeSync(fd, content, null, 'utf-8')
+      fsyncSync(fd)
+    } finally {
+      closeSync(fd)
+    }
+    renameSync(tempPath, path)
+  } catch (error) {
+    removeOptional(tempPath)
+
+    if ((error as NodeJS.ErrnoException).code === 'ENOSPC') {
+      throw new DOMException('No space left on device', 'QuotaExceededError')
+    }
+    throw error
+  }
+}
+
+/**
+ * Create the lock file, waiting while another process holds it
+ */
+function acquireLock(lockPath: string, timeout: number): void {
+  const deadline = Date.now() + timeout
+
+  for (;;) {
+    try {
+      closeSync(openSync(lockPath, 'wx'))
+      return
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+
+    try {
+      if (isStaleLock(lockPath)) {
+        removeStaleLock(lockPath)
+        continue
+      }
+    } catch (error) {
+      // Released meanwhile
+      if (isMissingFile(error)) continue
+      throw error
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for the storage lock "${lockPath}"`)
+    }
+
+    sleep(LOCK_RETRY_INTERVAL)
+  }
+}
+
+function isStaleLock(path: string): boolean {
+  return Date.now() - statSync(path).mtimeMs > STALE_LOCK_AGE
+}
+
+/**
+ * Move the lock aside before removing it, so that a lock another process
+ * acquired since it was found stale is put back instead of deleted
+ */
+function removeStaleLock(lockPath: string): void {
+  const stalePath = `${lockPath}.${randomBytes(6).toString('hex')}`
+  renameSync(lockPath, stalePath)
+
+  if (!isStaleLock(stalePath)) {
+    try {
+      linkSync(stalePath, lockPath)
+    } catch (error) {
+      // Acquired again meanwhile
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+  }
+  removeOptional(stalePath)
+}
+
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms)
+}
+
+function readOptional(path: string): string | null {
+  try {
+    return readFileSync(path, 'utf-8')
+  } catch (error) {
+    if (isMissingFile(error)) return null
+    throw error
+  }
+}
+
+function removeOptional(path: string): void {
+  try {
+    unlinkSync(path)
+  } catch (error) {
+    if (!isMissingFile(error)) throw error
+  }
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
@@ -1,18 +1,187 @@
-import type { BrowserStorageType, StorageAdapter } from './types'
+import type {
+  ArrayMergeStrategy,
+  AsyncStorageAdapter,
+  AsyncStoradaptOptions,
+  BrowserStoradaptOptions,
+  BrowserStorageType,
+  CacheOptions,
+  CacheStats,
+  CompressedStorageAdapter,
+  CompressionOptions,
+  CompressionStats,
+  CookieStorageOptions,
+  DeepPartial,
+  DeepPath,
+  EncryptedStorageAdapter,
+  EncryptionKey,
+  EncryptionOptions,
+  EvictionStrategy,
+  IndexedDBStorageAdapter,
+  IndexedDBStorageOptions,
+  InvalidPolicy,
+  JsonPatchOperation,
+  KeyPath,
+  MemoryStoradaptOptions,
+  MemoryStorageOptions,
+  MergeOptions,
+  PathValue,
+  QuotaOptions,
+  Schema,
+  SchemaDefinition,
+  Serializer,
+  StandardSchemaV1,
+  StorageAdapter,
+  StoradaptOptions,
+  StoradaptPath,
+  StoradaptSchema,
+  StoradaptValue,
+  TieredStorageAdapter,
+  TieredStoragePolicy,
+  TierRoute,
+  WriteBehindOptions
+} from './types'
 
-import { createBrowserStorageAdapter } from './adapter'
+import {
+  createBrowserStorageAdapter,
+  createMemoryStorageAdapter,
+  createNamespacedAdapter,
+  isBrowserStorageAvailable
+} from './adapter'
+import { AsyncStoradapt } from './async-storage'
+import { withCompression } from './compression'
+import { createCookieStorageAdapter } from './cookie-storage'
+import { withEncryption } from './encryption'
+import {
+  StoradaptDecryptionError,
+  StoradaptError,
+  StoradaptPatchError,
+  StoradaptValidationError,
+  StorageQuotaError
+} from './errors'
+import { createIndexedDBStorageAdapter } from './indexeddb-storage'
+import { applyJsonPatch, applyMergePatch, createJsonPatch } from './patch'
+import {
+  jsonSerializer,
+  rawSerializer,
+  superjsonSerializer
+} from './serializer'
 import { Storadapt } from './storage'
+import { resolveBrowserSyncOptions } from './sync'
+import { createTieredAdapter } from './tiered-storage'
 
-const createStoradapt = (
-  adapter: StorageAdapter | (() => StorageAdapter)
-): Storadapt => {
+const createStoradapt = <S extends StoradaptSchema = any>(
+  adapter: StorageAdapter | (() => StorageAdapter),
+  options?: StoradaptOptions
+): Storadapt<S> => {
   const adapterInstance = typeof adapter === 'function' ? adapter() : adapter
-  return new Storadapt(adapterInstance)
+  return new Storadapt<S>(adapterInstance, options)
 }
 
-const createBrowserStoradapt = (type: BrowserStorageType): Storadapt => {
-  return new Storadapt(createBrowserStorageAdapter(type))
+const createBrowserStoradapt = <S extends StoradaptSchema = any>(
+  type: BrowserStorageType,
+  options?: BrowserStoradaptOptions
+): Storadapt<S> => {
+  const { fallback, ...storadaptOptions } = options ?? {}
+
+  if (fallback !== undefined && !isBrowserStorageAvailable(type)) {
+    const adapter =
+      fallback === 'memory' ? createMemoryStorageAdapter() : fallback
+
+    return new Storadapt<S>(adapter, { ...storadaptOptions, sync: undefined })
+  }
+
+  const adapter = createBrowserStorageAdapter(type)
+  const sync = storadaptOptions.sync
+    ? resolveBrowserSyncOptions(type, storadaptOptions.sync)
+    : undefined
+
+  return new Storadapt<S>(adapter, { ...storadaptOptions, sync })
+}
+
+const createMemoryStoradapt = <S extends StoradaptSchema = any>(
+  initial?: Record<string, string>,
+  options?: MemoryStoradaptOptions
+): Storadapt<S> => {
+  const { maxSize, ...storadaptOptions } = options ?? {}
+  const adapter = createMemoryStorageAdapter(initial, { maxSize })
+
+  return new Storadapt<S>(adapter, storadaptOptions)
+}
+
+const createAsyncStoradapt = (
+  adapter: AsyncStorageAdapter | (() => AsyncStorageAdapter),
+  options?: AsyncStoradaptOptions
+): AsyncStoradapt => {
+  const adapterInstance = typeof adapter === 'function' ? adapter() : adapter
+  return new AsyncStoradapt(adapterInstance, options)
 }
 
-export { createBrowserStoradapt, createStoradapt, Storadapt }
-export type { StorageAdapter }
+export {
+  applyJsonPatch,
+  applyMergePatch,
+  AsyncStoradapt,
+  createAsyncStoradapt,
+  createBrowserStoradapt,
+  createBrowserStorageAdapter,
+  createCookieStorageAdapter,
+  createIndexedDBStorageAdapter,
+  createJsonPatch,
+  createMemoryStoradapt,
+  createMemoryStorageAdapter,
+  createNamespacedAdapter,
+  createStoradapt,
+  createTieredAdapter,
+  isBrowserStorageAvailable,
+  jsonSerializer,
+  rawSerializer,
+  Storadapt,
+  StoradaptDecryptionError,
+  StoradaptError,
+  StoradaptPatchError,
+  StoradaptValidationError,
+  StorageQuotaError,
+  superjsonSerializer,
+  withCompression,
+  withEncryption
+}
+export type {
+  ArrayMergeStrategy,
+  AsyncStorageAdapter,
+  AsyncStoradaptOptions,
+  BrowserStoradaptOptions,
+  CacheOptions,
+  CacheStats,
+  CompressedStorageAdapter,
+  CompressionOptions,
+  CompressionStats,
+  CookieStorageOptions,
+  DeepPartial,
+  DeepPath,
+  EncryptedStorageAdapter,
+  EncryptionKey,
+  EncryptionOptions,
+  EvictionStrategy,
+  IndexedDBStorageAdapter,
+  IndexedDBStorageOptions,
+  InvalidPolicy,
+  JsonPatchOperation,
+  KeyPath,
+  MemoryStoradaptOptions,
+  MemoryStorageOptions,
+  MergeOptions,
+  PathValue,
+  QuotaOptions,
+  Schema,
+  SchemaDefinition,
+  Serializer,
+  StandardSchemaV1,
+  StorageAdapter,
+  StoradaptOptions,
+  StoradaptPath,
+  StoradaptSchema,
+  StoradaptValue,
+  TieredStorageAdapter,
+  TieredStoragePolicy,
+  TierRoute,
+  WriteBehindOptions
+}
@@ -0,0 +1,226 @@
+import type { IndexedDBStorageAdapter, IndexedDBStorageOptions } from './types'
+
+import { errorLogger } from './util'
+
+const DEFAULT_DATABASE_NAME = 'storadapt'
+const DEFAULT_STORE_NAME = 'entries'
+
+type WriteOperation =
+  | { type: 'put'; key: string; value: string }
+  | { type: 'delete'; key: string }
+  | { type: 'clear' }
+
+/**
+ * Synchronous adapter over IndexedDB
+ * `ready()` loads every value into memory; after that, reads are served
+ * from memory and writes are applied to memory at once, then persisted
+ * asynchronously in ordered batches (one transaction per batch)
+ */
+export const createIndexedDBStorageAdapter = (
+  options?: IndexedDBStorageOptions
+): IndexedDBStorageAdapter => {
+  const {
+    databaseName = DEFAULT_DATABASE_NAME,
+    storeName = DEFAULT_STORE_NAME
+  } = options ?? {}
+
+  const entries = new Map<string, string>()
+  let db: IDBDatabase | null = null
+  let readyPromise: Promise<void> | null = null
+
+  let queue: WriteOperation[] = []
+  let scheduled = false
+  // Settles once every batch scheduled so far is written
+  let persisted: Promise<void> = Promise.resolve()
+  let failure: { error: unknown } | null = null
+
+  const ready = () => {
+    readyPromise ??= (async () => {
+      const factory = options?.indexedDB ?? globalThis.indexedDB
+      if (!factory) {
+        throw new TypeError('IndexedDB is not available in this environment')
+      }
+
+      const database = await openDatabase(factory, databaseName, storeName)
+      const transaction = database.transaction(storeName, 'readonly')
+      const store = transaction.objectStore(storeName)
+      const [keys, values] = await Promise.all([
+        requestResult(store.getAllKeys()),
+        requestResult(store.getAll())
+      ])
+
+      keys.forEach((key, index) => {
+        entries.set(String(key), String(values[index]))
+      })
+      db = database
+    })().catch((error) => {
+      readyPromise = null
+      throw error
+    })
+
+    return readyPromise
+  }
+
+  const assertReady = () => {
+    if (!db) {
+      throw new Error(
+        'IndexedDB adapter used before ready() resolved, await ready() first'
+      )
+    }
+  }
+
+  /**
+   * Persist queued writes once the calling code is done, and after
+   * previous batches, so that batches land in order
+   */
+  const enqueue = (operation: WriteOperation) => {
+    queue.push(operation)
+    if (scheduled) return
+
+    scheduled = true
+    persisted = persisted.then(async () => {
+      scheduled = false
+      const operations = queue
+      queue = []
+
+      try {
+        await writeBatch(db!, storeName, operations)
+      } catch (error) {
+        failure ??= { error }
+        errorLogger(`IndexedDB storage write error`, error)
+      }
+    })
+  }
+
+  const flush = async () => {
+    await persisted
+
+    if (failure) {
+      const { error } = failure
+      failure = null
+      throw error
+    }
+  }
+
+  return {
+    ready,
+    flush,
+    close: async () => {
+      if (!db) return
+
+      try {
+        await flush()
+      } finally {
+        db?.close()
+        db = null
+        readyPromise = null
+        entries.clear()
+      }
+    },
+    getItem: (key: string) => {
+      assertReady()
+      return entries.get(String(key)) ?? null
+    },
+    setItem: (key: string, value: string) => {
+      assertReady()
+      key = String(key)
+      value = String(value)
+
+      entries.set(key, value)
+      enqueue({ type: 'put', key, value })
+    },
+    removeItem: (key: string) => {
+      assertReady()
+      key = String(key)
+      if (!entries.delete(key)) return
+
+      enqueue({ type: 'delete', key })
+    },
+    clear: () => {
+      assertReady()
+      entries.clear()
+      enqueue({ type: 'clear' })
+    },
+    key: (index: number) => {
+      assertReady()
+      return Array.from(entries.keys())[index] ?? null
+    },
+    length: () => {
+      assertReady()
+      return entries.size
+    }
+  }
+}
+
+/**
+ * Open a database, creating the object store when missing
+ */
+async function openDatabase(
+  factory: IDBFactory,
+  databaseName: string,
+  storeName: string
+): Promise<IDBDatabase> {
+  const open = (version?: number) =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+      const request = factory.open(databaseName, version)
+
+      request.onupgradeneeded = () => {
+        const database = request.result
+        if (!database.objectStoreNames.contains(storeName)) {
+          database.createObjectStore(storeName)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+
+  let database = await open()
+
+  // The database exists without our store: upgrade it to add the store
+  if (!database.objectStoreNames.contains(storeName)) {
+    const version = database.version + 1
+    database.close()
+    database = await open(version)
+  }
+
+  // Let other connections upgrade the database
+  database.onversionchange = () => database.close()
+
+  return database
+}
+
+/**
+ * Write operations in order within one transaction
+ */
+function writeBatch(
+  database: IDBDatabase,
+  storeName: string,
+  operations: WriteOperation[]
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, 'readwrite')
+    const store = transaction.objectStore(storeName)
+
+    for (const operation of operations) {
+      if (operation.type === 'put') {
+        store.put(operation.value, operation.key)
+      } else if (operation.type === 'delete') {
+        store.delete(operation.key)
+      } else {
+        store.clear()
+      }
+    }
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+  })
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
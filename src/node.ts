@@ -0,0 +1,6 @@
+import type { FileStorageMode, FileStorageOptions } from './types'
+
+import { createFileStorageAdapter } from './file-storage'
+
+export { createFileStorageAdapter }
+export type { FileStorageMode, FileStorageOptions }
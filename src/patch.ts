@@ -0,0 +1,301 @@
+import type { JsonPatchOperation } from './types'
+
+import { StoradaptPatchError } from './errors'
+import { isEqual, isObject } from './util'
+
+/**
+ * Segments that would reach `Object.prototype` through a plain object
+ */
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype'])
+
+/**
+ * Parse an RFC 6901 JSON Pointer into path segments
+ * @example parseJsonPointer('/users/0/name~1alias') => ['users', '0', 'name/alias']
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return []
+
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}"`)
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Format path segments as an RFC 6901 JSON Pointer
+ */
+export function toJsonPointer(segments: readonly string[]): string {
+  return segments
+    .map((segment) => `/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('')
+}
+
+/**
+ * Apply RFC 6902 JSON Patch operations to a copy of `document`
+ * Either every operation succeeds or a `StoradaptPatchError` is thrown
+ *
+ * @returns The patched copy
+ */
+export function applyJsonPatch(
+  document: any,
+  operations: readonly JsonPatchOperation[]
+): any {
+  let result = structuredClone(document)
+
+  operations.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation)
+    } catch (error) {
+      if (error instanceof StoradaptPatchError) throw error
+      throw new StoradaptPatchError(
+        index,
+        operation,
+        error instanceof Error ? error.message : String(error)
+      )
+    }
+  })
+
+  return result
+}
+
+/**
+ * Create the JSON Patch turning `oldValue` into `newValue`
+ * Objects and arrays are compared recursively, arrays by index
+ */
+export function createJsonPatch(
+  oldValue: any,
+  newValue: any,
+  segments: string[] = []
+): JsonPatchOperation[] {
+  if (isEqual(oldValue, newValue)) return []
+
+  const pointer = (key: string | number) =>
+    toJsonPointer([...segments, String(key)])
+
+  if (isObject(oldValue) && isObject(newValue)) {
+    const operations: JsonPatchOperation[] = []
+
+    for (const key of Object.keys(oldValue)) {
+      if (!(key in newValue)) {
+        operations.push({ op: 'remove', path: pointer(key) })
+      }
+    }
+
+    for (const [key, value] of Object.entries(newValue)) {
+      if (key in oldValue) {
+        operations.push(
+          ...createJsonPatch(oldValue[key], value, [...segments, key])
+        )
+      } else {
+        operations.push({ op: 'add', path: pointer(key), value })
+      }
+    }
+
+    return operations
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    const operations: JsonPatchOperation[] = []
+    const common = Math.min(oldValue.length, newValue.length)
+
+    for (let i = 0; i < common; i++) {
+      operations.push(
+        ...createJsonPatch(oldValue[i], newValue[i], [...segments, String(i)])
+      )
+    }
+
+    // Remove from the end so that earlier indexes stay valid
+    for (let i = oldValue.length - 1; i >= newValue.length; i--) {
+      operations.push({ op: 'remove', path: pointer(i) })
+    }
+
+    for (let i = oldValue.length; i < newValue.length; i++) {
+      operations.push({ op: 'add', path: pointer(i), value: newValue[i] })
+    }
+
+    return operations
+  }
+
+  return [{ op: 'replace', path: toJsonPointer(segments), value: newValue }]
+}
+
+/**
+ * Apply an RFC 7386 JSON Merge Patch without mutating `target`
+ * Objects are merged recursively, null removes a property,
+ * anything else (including arrays) replaces the target
+ */
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isObject(patch)) return patch
+
+  const result: Record<string, any> = isObject(target) ? { ...target } : {}
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key]
+    } else {
+      result[key] = applyMergePatch(result[key], value)
+    }
+  }
+
+  return result
+}
+
+// ==================== Operations ====================
+
+/**
+ * Apply a single operation, mutating `document` when possible
+ * @returns The document, which changes when the root is replaced
+ */
+function applyOperation(document: any, operation: JsonPatchOperation): any {
+  const segments = parseJsonPointer(operation.path)
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, segments, structuredClone(operation.value))
+
+    case 'remove':
+      return removeValue(document, segments).document
+
+    case 'replace':
+      if (segments.length === 0) return structuredClone(operation.value)
+      return addValue(
+        removeValue(document, segments).document,
+        segments,
+        structuredClone(operation.value)
+      )
+
+    case 'move': {
+      const from = parseJsonPointer(operation.from)
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error('cannot move a value into one of its children')
+      }
+
+      const removed = removeValue(document, from)
+      return addValue(removed.document, segments, removed.value)
+    }
+
+    case 'copy': {
+      const value = getValue(document, parseJsonPointer(operation.from))
+      return addValue(document, segments, structuredClone(value))
+    }
+
+    case 'test':
+      if (!isEqual(getValue(document, segments), operation.value)) {
+        throw new Error('test failed')
+      }
+      return document
+
+    default:
+      throw new Error(`unknown operation "${(operation as any).op}"`)
+  }
+}
+
+/**
+ * Locate the container holding the last segment of a path
+ * Only own members are followed, and segments are read as array indexes
+ * only when the container is an array (RFC 6901)
+ */
+function resolveParent(document: any, segments: string[]) {
+  const unsafe = segments.find((segment) => UNSAFE_SEGMENTS.has(segment))
+  if (unsafe !== undefined) {
+    throw new Error(`unsafe path segment "${unsafe}"`)
+  }
+
+  let parent = document
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i]
+
+    if (Array.isArray(parent)) {
+      parent = parent[parseIndex(segment, parent, false)]
+    } else if (isObject(parent) && Object.hasOwn(parent, segment)) {
+      parent = parent[segment]
+    } else {
+      throw new Error(
+        `${toJsonPointer(segments.slice(0, i + 1))} does not exist`
+      )
+    }
+  }
+
+  const last = segments[segments.length - 1]
+
+  if (!Array.isArray(parent) && !isObject(parent)) {
+    throw new Error(
+      `${toJsonPointer(segments.slice(0, -1))} is not a container`
+    )
+  }
+
+  return { parent, last }
+}
+
+/**
+ * Parse an array index, `-` meaning the end of the array
+ */
+function parseIndex(last: string, array: any[], allowEnd: boolean): number {
+  if (allowEnd && last === '-') return array.length
+
+  if (!/^(?:0|[1-9]\d*)$/.test(last)) {
+    throw new Error(`invalid array index "${last}"`)
+  }
+
+  const index = Number(last)
+  const max = allowEnd ? array.length : array.length - 1
+  if (index > max) {
+    throw new Error(`array index ${index} out of bounds`)
+  }
+
+  return index
+}
+
+function getValue(document: any, segments: string[]): any {
+  if (segments.length === 0) return document
+
+  const { parent, last } = resolveParent(document, segments)
+
+  if (Array.isArray(parent)) {
+    return parent[parseIndex(last, parent, false)]
+  }
+
+  if (!Object.hasOwn(parent, last)) {
+    throw new Error(`${toJsonPointer(segments)} does not exist`)
+  }
+
+  return parent[last]
+}
+
+function addValue(document: any, segments: string[], value: any): any {
+  if (segments.length === 0) return value
+
+  const { parent, last } = resolveParent(document, segments)
+
+  if (Array.isArray(parent)) {
+    parent.splice(parseIndex(last, parent, true), 0, value)
+  } else {
+    parent[last] = value
+  }
+
+  return document
+}
+
+function removeValue(
+  document: any,
+  segments: string[]
+): { document: any; value: any } {
+  if (segments.length === 0) {
+    throw new Error('cannot remove the root value, use remove() instead')
+  }
+
+  const value = getValue(document, segments)
+  const { parent, last } = resolveParent(document, segments)
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(last), 1)
+  } else {
+    delete parent[last]
+  }
+
+  return { document, value }
+}
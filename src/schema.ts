@@ -0,0 +1,67 @@
+import type {
+  Schema,
+  SchemaDefinition,
+  SchemaIssue,
+  StandardSchemaV1
+} from './types'
+
+/**
+ * Outcome of running a schema
+ */
+export type SchemaResult<T = any> =
+  | { success: true; value: T }
+  | { success: false; issues: readonly SchemaIssue[] }
+
+/**
+ * Check if value implements the Standard Schema interface
+ */
+export function isStandardSchema(
+  value: unknown
+): value is StandardSchemaV1<any, any> {
+  return (
+    !!value &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    '~standard' in value
+  )
+}
+
+/**
+ * Normalize a registry entry into a schema definition
+ */
+export function toSchemaDefinition(
+  entry: Schema | SchemaDefinition
+): SchemaDefinition {
+  if (typeof entry !== 'function' && !isStandardSchema(entry)) {
+    return entry
+  }
+
+  return { schema: entry }
+}
+
+/**
+ * Validate a value synchronously
+ * Parser functions signal invalid values by throwing
+ */
+export function runSchema<T = any>(
+  schema: Schema<T>,
+  value: unknown
+): SchemaResult<T> {
+  if (isStandardSchema(schema)) {
+    const result = schema['~standard'].validate(value)
+
+    if (result instanceof Promise) {
+      throw new TypeError('Asynchronous schemas are not supported')
+    }
+
+    return result.issues
+      ? { success: false, issues: result.issues }
+      : { success: true, value: result.value as T }
+  }
+
+  try {
+    return { success: true, value: schema(value) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { success: false, issues: [{ message }] }
+  }
+}
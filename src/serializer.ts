@@ -0,0 +1,89 @@
+import type { Serializer } from './types'
+
+import superjson from 'superjson'
+
+/**
+ * Parse JSON text, reporting failures instead of throwing
+ */
+function tryParseJson(text: string): { ok: true; value: any } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) }
+  } catch {
+    return { ok: false }
+  }
+}
+
+/**
+ * Check if a parsed value has the exact `{ json, meta? }` shape
+ * produced by `superjson.serialize`
+ */
+export function isSuperJsonShape(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false
+  }
+
+  const keys = Object.keys(value)
+  return (
+    keys.includes('json') && keys.every((k) => k === 'json' || k === 'meta')
+  )
+}
+
+/**
+ * Build a JSON-based serializer with an unambiguous storage format:
+ * - strings that are not valid JSON text are stored as-is (readable)
+ * - every other value, including JSON-like strings such as `'42'`,
+ *   is encoded, so reading never mistakes a string for another type
+ */
+function createJsonBasedSerializer(
+  encode: (value: any) => string,
+  decode: (parsed: any) => any
+): Serializer {
+  return {
+    stringify: (value) => {
+      if (typeof value === 'string' && !tryParseJson(value).ok) {
+        return value
+      }
+
+      return encode(value)
+    },
+    parse: (text) => {
+      const parsed = tryParseJson(text)
+      return parsed.ok ? decode(parsed.value) : text
+    }
+  }
+}
+
+/**
+ * Default serializer, preserving Date, Map, Set, BigInt, undefined, ...
+ * Plain JSON that was not written by superjson is still read as JSON
+ */
+export const superjsonSerializer: Serializer = createJsonBasedSerializer(
+  (value) => superjson.stringify(value),
+  (parsed) =>
+    isSuperJsonShape(parsed) ? superjson.deserialize(parsed) : parsed
+)
+
+/**
+ * Plain JSON serializer, readable by any other JSON consumer
+ */
+export const jsonSerializer: Serializer = createJsonBasedSerializer(
+  (value) => JSON.stringify(value) ?? 'null',
+  (parsed) => parsed
+)
+
+/**
+ * Stores strings exactly as given and returns stored text untouched
+ * Only string values (and no `ttl`/versioning metadata) can be stored
+ */
+export const rawSerializer: Serializer = {
+  stringify: (value) => {
+    if (typeof value !== 'string') {
+      throw new TypeError(
+        `rawSerializer can only store strings, got ${typeof value}`
+      )
+    }
+
+    return value
+  },
+  parse: (text) => text
+}
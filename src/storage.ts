@@ -1,32 +1,130 @@
 // storage.ts
+import type { EntryCache } from './cache'
+import type { StorageSync } from './sync'
+import type { WriteBehindScheduler } from './write-behind'
 import type {
+  CacheStats,
+  ChangeEvent,
+  ChangeListener,
   DeepOperation,
+  DeepPartial,
   DeepPathInfo,
-  GetDeepOptions,
+  EntryMeta,
   GetOptions,
-  SetDeepOptions,
+  JsonPatchOperation,
+  KeyPath,
+  MergeOptions,
+  MigrationConfig,
+  QuotaOptions,
+  Schema,
+  SchemaDefinition,
+  SchemaOptions,
+  Serializer,
   SetOptions,
-  StorageAdapter
+  StorageAdapter,
+  StoradaptEventName,
+  StoradaptItem,
+  StoradaptOptions,
+  StoradaptPath,
+  StoradaptSchema,
+  StoradaptValue,
+  StoredEntry,
+  UntypedKey,
+  Unsubscribe,
+  WatchCallback
 } from './types'
 
+import { createNamespacedAdapter, createOverlayAdapter } from './adapter'
+import { createEntryCache } from './cache'
 import {
+  StoradaptError,
+  StoradaptValidationError,
+  StorageQuotaError
+} from './errors'
+import { applyJsonPatch, applyMergePatch, createJsonPatch } from './patch'
+import { runSchema, toSchemaDefinition } from './schema'
+import { superjsonSerializer } from './serializer'
+import { createStorageSync } from './sync'
+import {
+  cloneEntry,
+  deepMerge,
   deserialize,
+  errorLogger,
+  getDeep,
   isArrayIndex,
-  isObject,
-  parsePath,
+  isEqual,
+  isExpired,
+  isQuotaExceededError,
+  matchesRootType,
+  resolveExpiresAt,
   serialize,
-  traversePath
+  setDeep,
+  splitKey,
+  stringifyPath,
+  unwrapEntry,
+  wrapEntry
 } from './util'
+import { createWriteBehind } from './write-behind'
 
-export class Storadapt {
+/**
+ * Synchronous storage with deep paths
+ * With a schema `S`, keys, deep paths and values are type-checked
+ */
+export class Storadapt<S extends StoradaptSchema = any> {
   private adapter: StorageAdapter
+  private serializer: Serializer
+  private listeners = new Set<ChangeListener>()
+  private sync: StorageSync | null = null
+  private schemas = new Map<string, SchemaDefinition>()
+  private migrations = new Map<string, MigrationConfig>()
+  private defaultMigration: MigrationConfig | null = null
+  private quota: QuotaOptions
+  // Last access time per key, for LRU eviction
+  private accessedAt = new Map<string, number>()
+  private cache: EntryCache | null = null
+  private writeBehind: WriteBehindScheduler | null = null
+  // Writes not persisted yet, null for removals
+  private pending = new Map<string, StoredEntry | null>()
 
-  constructor(adapter: StorageAdapter) {
+  constructor(adapter: StorageAdapter, options?: StoradaptOptions) {
     this.adapter = adapter
+    this.serializer = options?.serializer ?? superjsonSerializer
+    this.defaultMigration = options?.defaultMigration ?? null
+    this.quota = options?.quota ?? {}
+
+    if (options?.cache) {
+      this.cache = createEntryCache(
+        options.cache === true ? undefined : options.cache
+      )
+    }
+
+    for (const [key, config] of Object.entries(options?.migrations ?? {})) {
+      this.migrations.set(key, config)
+    }
+
+    for (const [key, entry] of Object.entries(options?.schemas ?? {})) {
+      this.schemas.set(key, toSchemaDefinition(entry))
+    }
+
+    if (options?.sync) {
+      this.sync = createStorageSync(
+        options.sync,
+        (...args) => this._applyExternalChange(...args),
+        () => this._applyExternalClear()
+      )
+    }
+
+    if (options?.writeBehind) {
+      this.writeBehind = createWriteBehind(
+        options.writeBehind === true ? {} : options.writeBehind,
+        () => this._flushPending()
+      )
+    }
   }
 
   get length(): number {
     try {
+      this._flushPending()
       return this.adapter.length()
     } catch (error) {
       errorLogger(`Storadapt.length error`, error)
@@ -34,11 +132,20 @@ export class Storadapt {
     }
   }
 
+  /**
+   * Whether stored values outlive the page or the process
+   * False on memory storage, such as the fallback of createBrowserStoradapt
+   */
+  get isPersistent(): boolean {
+    return this.adapter.persistent !== false
+  }
+
   /**
    * Get key name by index (same as localStorage.key)
    */
   key<T = any>(index: number): T | null {
     try {
+      this._flushPending()
       const rawValue = this.adapter.key(index)
 
       return rawValue as T
@@ -52,28 +159,35 @@ export class Storadapt {
    * Get stored value with automatic JSON deserialization
    * Supports deep path: 'user.infos.0.name'
    */
-  get<T = any>(key: string, options?: GetOptions<T>): T | null {
+  get<P extends StoradaptPath<S>>(
+    key: P,
+    options?: GetOptions<StoradaptValue<S, P>>
+  ): StoradaptValue<S, P> | null
+  get<T = any>(key: UntypedKey<S>, options?: GetOptions<T>): T | null
+  get(key: KeyPath, options?: GetOptions): any {
     try {
-      const dotIndex = key.indexOf('.')
+      const { storageKey, pathSegments } = splitKey(key)
 
-      if (dotIndex === -1) {
-        return this._getSimple<T>(key, options)
+      if (pathSegments.length === 0) {
+        return this._getSimple(storageKey, options)
       }
 
       // Handle deep path
-      const pathInfo = this._parseDeepPath(key, dotIndex, 'get')
+      const pathInfo = this._parseDeepPath(storageKey, pathSegments, 'get')
       if (!pathInfo) {
         return options?.defaultValue ?? null
       }
 
-      const { rootValue, pathSegments } = pathInfo
+      const { rootValue } = pathInfo
 
       // Use getDeep to retrieve deep value
-      return this._getDeep(rootValue, pathSegments, {
+      const value = getDeep(rootValue, pathSegments, {
         defaultValue: options?.defaultValue
-      }) as T
+      })
+      return value === options?.defaultValue ? value : this._ownValue(value)
     } catch (error) {
-      errorLogger(`Storadapt.get error for key "${key}"`, error)
+      if (error instanceof StoradaptError) throw error
+      errorLogger(`Storadapt.get error for key "${stringifyPath(key)}"`, error)
       return options?.defaultValue ?? null
     }
   }
@@ -81,121 +195,602 @@ export class Storadapt {
   /**
    * Set storage value with automatic object serialization
    * Supports deep path: 'user.infos.0.name'
+   * Supports expiration via `ttl` / `expiresAt`
+   * Throws a `StorageQuotaError` when the quota is exceeded
    */
-  set(key: string, value: any, options?: SetOptions): void {
+  set<P extends StoradaptPath<S>>(
+    key: P,
+    value: StoradaptValue<S, P>,
+    options?: SetOptions
+  ): void {
     try {
-      const dotIndex = key.indexOf('.')
+      const { storageKey, pathSegments } = splitKey(key)
 
-      if (dotIndex === -1) {
-        const serialized = serialize(value)
-        this.adapter.setItem(key, serialized)
+      const expiresAt = resolveExpiresAt(options)
+      const priority = options?.priority
+
+      if (pathSegments.length === 0) {
+        this._saveToStorage(storageKey, value, { expiresAt, priority })
         return
       }
 
       // Handle deep path
-      const pathInfo = this._parseDeepPath(key, dotIndex, 'set')
+      const pathInfo = this._parseDeepPath(storageKey, pathSegments, 'set')
       if (!pathInfo) return
 
-      const { storageKey, rootValue, pathSegments } = pathInfo
+      const { rootValue } = pathInfo
+
+      // Keep the existing expiration and priority unless new ones are given
+      const meta = { ...pathInfo.meta }
+      if (expiresAt !== undefined) meta.expiresAt = expiresAt
+      if (priority !== undefined) meta.priority = priority
 
       // Use setDeep to set deep value
-      this._setDeep(rootValue, pathSegments, value, {
+      setDeep(rootValue, pathSegments, value, {
         createPath: options?.createPath
       })
 
       // Save back to storage
-      this._saveToStorage(storageKey, rootValue)
+      this._saveToStorage(storageKey, rootValue, meta)
     } catch (error) {
-      errorLogger(`Storadapt.set error for key "${key}"`, error)
+      if (error instanceof StoradaptError) throw error
+      errorLogger(`Storadapt.set error for key "${stringifyPath(key)}"`, error)
     }
   }
 
   /**
    * Remove specified key or deep path
-   * - Without dot: removes entire key
-   * - With dot: removes specific property/index using setDeep
+   * - Storage key only: removes entire key
+   * - Deep path: removes specific property/index using setDeep
    */
-  remove(key: string): void {
+  remove(key: StoradaptPath<S>): void {
     try {
-      const dotIndex = key.indexOf('.')
+      const { storageKey, pathSegments } = splitKey(key)
 
-      if (dotIndex === -1) {
-        this.adapter.removeItem(key)
+      if (pathSegments.length === 0) {
+        this._removeFromStorage(storageKey)
         return
       }
 
       // Handle deep path
-      const pathInfo = this._parseDeepPath(key, dotIndex, 'remove')
+      const pathInfo = this._parseDeepPath(storageKey, pathSegments, 'remove')
       if (!pathInfo) return
 
-      const { storageKey, rootValue, pathSegments } = pathInfo
+      const { rootValue, meta } = pathInfo
 
       // Use setDeep with remove option
-      this._setDeep(rootValue, pathSegments, undefined, {
+      setDeep(rootValue, pathSegments, undefined, {
         remove: true,
         createPath: false
       })
 
       // Save back to storage
-      this._saveToStorage(storageKey, rootValue)
+      this._saveToStorage(storageKey, rootValue, meta)
     } catch (error) {
-      errorLogger(`Storadapt.remove error for key "${key}"`, error)
+      if (error instanceof StoradaptError) throw error
+      errorLogger(
+        `Storadapt.remove error for key "${stringifyPath(key)}"`,
+        error
+      )
     }
   }
 
   /**
-   * Check if key exists
+   * Check if key exists (expired keys are treated as missing)
    */
-  has(key: string): boolean {
+  has(key: StoradaptPath<S>): boolean {
     try {
-      const dotIndex = key.indexOf('.')
+      const { storageKey, pathSegments } = splitKey(key)
 
-      if (dotIndex === -1) {
-        return this.adapter.getItem(key) !== null
+      if (pathSegments.length === 0) {
+        return this._readValidEntry(storageKey) !== null
       }
 
       const value = this.get(key)
       return value !== null
     } catch (error) {
-      errorLogger(`Storadapt.has error for key "${key}"`, error)
+      if (error instanceof StoradaptError) throw error
+      errorLogger(`Storadapt.has error for key "${stringifyPath(key)}"`, error)
       return false
     }
   }
 
+  /**
+   * Deep merge a partial value into the value at a key or deep path,
+   * reading and writing once
+   * Plain objects are merged recursively, other values are replaced
+   */
+  merge<P extends StoradaptPath<S>>(
+    key: P,
+    partial: DeepPartial<StoradaptValue<S, P>>,
+    options?: MergeOptions
+  ): void {
+    this._modifyValue('merge', key, undefined, (current) => ({
+      value: deepMerge(current, partial, options?.arrays),
+      result: undefined
+    }))
+  }
+
+  /**
+   * Replace the value at a key or deep path with the result of `updater`,
+   * reading and writing once
+   * The updater receives the current value (null when missing) and may
+   * also mutate it in place and return nothing
+   */
+  update<P extends StoradaptPath<S>>(
+    key: P,
+    updater: (
+      current: StoradaptValue<S, P> | null
+    ) => StoradaptValue<S, P> | void
+  ): void {
+    this._modifyValue('update', key, undefined, (current) => {
+      const next = updater(current)
+      if (next === undefined && current === null) return
+
+      return { value: next === undefined ? current : next, result: undefined }
+    })
+  }
+
+  /**
+   * Apply RFC 6902 JSON Patch operations to the value at a key or deep path
+   * Pointers are relative to that value. The patch is atomic: when an
+   * operation fails, a `StoradaptPatchError` is thrown and nothing is written
+   */
+  applyPatch(
+    key: StoradaptPath<S>,
+    operations: readonly JsonPatchOperation[]
+  ): void {
+    this._modifyValue('applyPatch', key, undefined, (current) => ({
+      value: applyJsonPatch(current, operations),
+      result: undefined
+    }))
+  }
+
+  /**
+   * Create the JSON Patch turning the value at a key or deep path
+   * into `newValue`, without writing it
+   */
+  diff<P extends StoradaptPath<S>>(
+    key: P,
+    newValue: StoradaptValue<S, P>
+  ): JsonPatchOperation[] {
+    return createJsonPatch(this.get(key), newValue)
+  }
+
+  /**
+   * Apply an RFC 7386 JSON Merge Patch to the value at a key or deep path
+   * `null` properties are removed, arrays are replaced
+   */
+  applyMergePatch(key: StoradaptPath<S>, patch: any): void {
+    this._modifyValue('applyMergePatch', key, undefined, (current) => ({
+      value: applyMergePatch(current, patch),
+      result: undefined
+    }))
+  }
+
   /**
    * Clear all storage
    */
   clear(): void {
     try {
+      // Snapshot values only when someone is listening
+      const snapshot =
+        this.listeners.size || this.sync
+          ? [...new Set([...this._keys(), ...this.pending.keys()])].map(
+              (key) => [key, this._peekValue(key)] as const
+            )
+          : []
+
       this.adapter.clear()
+      this.cache?.clear()
+      this.pending.clear()
+      this.writeBehind?.cancel()
+
+      for (const [key, oldValue] of snapshot) {
+        this.sync?.broadcast(key, null)
+
+        if (oldValue !== null) {
+          this._emitChange({ key, oldValue, newValue: null, source: 'local' })
+        }
+      }
     } catch (error) {
       errorLogger(`Storadapt.clear error`, error)
     }
   }
 
+  /**
+   * Create a sub-store whose keys are transparently prefixed with `${name}:`
+   * Its `length`, `key` and `clear` only touch its own keys
+   * The serializer and quota policy are inherited unless overridden
+   * Its writes drop the values cached by this store for the same keys
+   */
+  namespace<N extends StoradaptSchema = any>(
+    name: string,
+    options?: StoradaptOptions
+  ): Storadapt<N> {
+    const adapter = createNamespacedAdapter(this.adapter, name)
+    const prefix = `${name}:`
+
+    const invalidating: StorageAdapter = {
+      ...adapter,
+      setItem: (key, value) => {
+        adapter.setItem(key, value)
+        this.cache?.delete(prefix + key)
+      },
+      removeItem: (key) => {
+        adapter.removeItem(key)
+        this.cache?.delete(prefix + key)
+      },
+      clear: () => {
+        adapter.clear()
+        for (const [key] of this.cache?.entries() ?? []) {
+          if (key.startsWith(prefix)) this.cache?.delete(key)
+        }
+      }
+    }
+
+    return new Storadapt<N>(invalidating, {
+      serializer: this.serializer,
+      quota: this.quota,
+      ...options
+    })
+  }
+
+  /**
+   * Run several operations atomically
+   * Writes made through `tx` are staged and committed together when the
+   * callback returns; writes to the same storage key are coalesced into
+   * one `setItem`. When the callback throws nothing is written, and when
+   * a commit write fails the values written before it are restored
+   *
+   * @returns The callback result
+   */
+  transaction<R>(callback: (tx: Storadapt<S>) => R): R {
+    this._flushPending()
+
+    const overlay = createOverlayAdapter(this.adapter)
+    const tx = new Storadapt<S>(overlay, {
+      serializer: this.serializer,
+      quota: this.quota
+    })
+    tx.schemas = this.schemas
+    tx.migrations = this.migrations
+    tx.defaultMigration = this.defaultMigration
+
+    const result = callback(tx)
+
+    if (result instanceof Promise) {
+      throw new TypeError('Transaction callbacks must be synchronous')
+    }
+
+    this._commit(overlay.changes)
+    return result
+  }
+
+  /**
+   * Register a schema validating the whole value of a storage key.
+   * Accepts any Standard Schema validator or a parser function
+   * that returns the value or throws
+   */
+  defineSchema<T = any>(
+    key: string,
+    schema: Schema<T>,
+    options?: SchemaOptions
+  ): void {
+    this.schemas.set(key, { ...options, schema })
+  }
+
+  /**
+   * Register versioning for a storage key
+   * Older values are upgraded lazily when read
+   */
+  defineMigration(key: string, config: MigrationConfig): void {
+    this.migrations.set(key, config)
+  }
+
+  /**
+   * Eagerly upgrade every stored value with an outdated version
+   * @returns Number of migrated keys
+   */
+  migrateAll(): number {
+    let migrated = 0
+
+    try {
+      this._flushPending()
+
+      for (const key of this._keys()) {
+        try {
+          const rawValue = this.adapter.getItem(key)
+          if (rawValue === null) continue
+
+          const entry = unwrapEntry(deserialize(rawValue, this.serializer))
+          if (isExpired(entry.meta)) continue
+
+          const upgraded = this._migrateEntry(key, entry)
+          if (upgraded) {
+            this._saveToStorage(key, upgraded.value, upgraded.meta)
+            migrated++
+          }
+        } catch (error) {
+          errorLogger(`Storadapt.migrateAll error for key "${key}"`, error)
+        }
+      }
+    } catch (error) {
+      errorLogger(`Storadapt.migrateAll error`, error)
+    }
+
+    return migrated
+  }
+
+  /**
+   * Subscribe to storage events
+   * - `change`: fired after `set`/`remove`/`clear` changed a storage key
+   *
+   * @returns Function removing the listener
+   */
+  on(event: StoradaptEventName, listener: ChangeListener): Unsubscribe {
+    if (event !== 'change') {
+      throw new Error(`Unknown event "${event}"`)
+    }
+
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Watch a key or deep path: 'user.profile.name'
+   * The callback fires whenever the value at that path changes,
+   * whether written directly or through its root key or a parent path
+   *
+   * @returns Function stopping the watcher
+   */
+  watch<P extends StoradaptPath<S>>(
+    key: P,
+    callback: WatchCallback<StoradaptValue<S, P>>
+  ): Unsubscribe
+  watch<T = any>(key: UntypedKey<S>, callback: WatchCallback<T>): Unsubscribe
+  watch(key: KeyPath, callback: WatchCallback): Unsubscribe {
+    const { storageKey, pathSegments } = splitKey(key)
+
+    const pick = (rootValue: any): any => {
+      if (rootValue === null || pathSegments.length === 0) return rootValue
+      return getDeep(rootValue, pathSegments, { defaultValue: null })
+    }
+
+    return this.on('change', (event) => {
+      if (event.key !== storageKey) return
+
+      const newValue = pick(event.newValue)
+      const oldValue = pick(event.oldValue)
+
+      if (!isEqual(newValue, oldValue)) {
+        callback(newValue, oldValue, event)
+      }
+    })
+  }
+
+  /**
+   * Persist the pending writes of write-behind mode now
+   * Throws the first failed write, e.g. a `StorageQuotaError`
+   * Failed writes stay pending and are retried after the write-behind delay
+   */
+  flush(): void {
+    this.writeBehind?.cancel()
+
+    const errors: unknown[] = []
+
+    for (const [key, entry] of [...this.pending]) {
+      try {
+        this._persist(key, entry)
+        // Unless evicted or written again meanwhile
+        if (this.pending.get(key) === entry) this.pending.delete(key)
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+
+    // Report the first failure, every other write was still attempted
+    if (errors.length > 0) {
+      this.writeBehind?.schedule()
+      errors
+        .slice(1)
+        .forEach((error) => errorLogger(`Storadapt.flush error`, error))
+      throw errors[0]
+    }
+  }
+
+  /**
+   * Persist pending writes, then stop cross-tab synchronization
+   * and release its listeners
+   */
+  destroy(): void {
+    this._flushPending()
+    this.writeBehind?.destroy()
+    this.sync?.destroy()
+    this.sync = null
+  }
+
+  /**
+   * Remove all expired keys
+   * @returns Number of removed keys
+   */
+  purgeExpired(): number {
+    let purged = 0
+
+    try {
+      this._flushPending()
+      const now = Date.now()
+
+      for (const key of this._keys()) {
+        const rawValue = this.adapter.getItem(key)
+        if (rawValue === null) continue
+
+        const { meta } = unwrapEntry(deserialize(rawValue, this.serializer))
+        if (isExpired(meta, now)) {
+          this.adapter.removeItem(key)
+          this.cache?.delete(key)
+          purged++
+        }
+      }
+    } catch (error) {
+      errorLogger(`Storadapt.purgeExpired error`, error)
+    }
+
+    return purged
+  }
+
+  /**
+   * Get hit/miss counters of the read cache
+   * @returns null when the `cache` option is disabled
+   */
+  getCacheStats(): CacheStats | null {
+    return this.cache?.stats() ?? null
+  }
+
+  /**
+   * Drop every cached value, e.g. after writing to the adapter directly
+   */
+  clearCache(): void {
+    this.cache?.clear()
+  }
+
+  // ==================== Array Methods ====================
+
+  /**
+   * Append items to the array at a key or deep path
+   * The array is created when missing
+   * @returns New length of the array
+   */
+  push<P extends StoradaptPath<S>>(
+    key: P,
+    ...items: StoradaptItem<S, P>[]
+  ): number {
+    return this._updateArray('push', key, true, 0, (array) =>
+      array.push(...items)
+    )
+  }
+
+  /**
+   * Prepend items to the array at a key or deep path
+   * The array is created when missing
+   * @returns New length of the array
+   */
+  unshift<P extends StoradaptPath<S>>(
+    key: P,
+    ...items: StoradaptItem<S, P>[]
+  ): number {
+    return this._updateArray('unshift', key, true, 0, (array) =>
+      array.unshift(...items)
+    )
+  }
+
+  /**
+   * Insert items before `index` (negative indexes count from the end)
+   * The array is created when missing
+   * @returns New length of the array
+   */
+  insert<P extends StoradaptPath<S>>(
+    key: P,
+    index: number,
+    ...items: StoradaptItem<S, P>[]
+  ): number {
+    return this._updateArray('insert', key, true, 0, (array) => {
+      array.splice(index, 0, ...items)
+      return array.length
+    })
+  }
+
+  /**
+   * Remove and/or insert items, like `Array.prototype.splice`
+   * @returns Removed items
+   */
+  splice<P extends StoradaptPath<S>>(
+    key: P,
+    start: number,
+    deleteCount?: number,
+    ...items: StoradaptItem<S, P>[]
+  ): StoradaptItem<S, P>[] {
+    return this._updateArray('splice', key, items.length > 0, [], (array) =>
+      deleteCount === undefined
+        ? array.splice(start)
+        : array.splice(start, deleteCount, ...items)
+    )
+  }
+
+  /**
+   * Remove the last item of the array at a key or deep path
+   * @returns Removed item, null when the array is empty or missing
+   */
+  pop<P extends StoradaptPath<S>>(key: P): StoradaptItem<S, P> | null {
+    return this._updateArray('pop', key, false, null, (array) =>
+      array.length ? array.pop() : null
+    )
+  }
+
+  /**
+   * Move an item from one index to another (negative indexes count from the end)
+   */
+  move(key: StoradaptPath<S>, from: number, to: number): void {
+    this._updateArray('move', key, false, undefined, (array) => {
+      // Both indexes refer to the array before the item is taken out
+      const resolve = (index: number) => {
+        const resolved = index < 0 ? array.length + index : index
+        if (resolved < 0 || resolved >= array.length) {
+          throw new RangeError(`Index ${index} out of bounds`)
+        }
+        return resolved
+      }
+      const fromIndex = resolve(from)
+      const toIndex = resolve(to)
+
+      const [item] = array.splice(fromIndex, 1)
+      array.splice(toIndex, 0, item)
+    })
+  }
+
+  /**
+   * Remove every item matching `predicate`
+   * @returns Number of removed items
+   */
+  removeWhere<P extends StoradaptPath<S>>(
+    key: P,
+    predicate: (item: StoradaptItem<S, P>, index: number) => boolean
+  ): number {
+    return this._updateArray('removeWhere', key, false, 0, (array) => {
+      let kept = 0
+      array.forEach((item, index) => {
+        if (!predicate(item, index)) array[kept++] = item
+      })
+
+      const removed = array.length - kept
+      array.length = kept
+      return removed
+    })
+  }
+
   // ==================== Private Methods ====================
 
   /**
-   * Parse deep path and prepare for operation
+   * Load the root value of a deep path and prepare for operation
    * Handles common logic for get/set/remove deep operations
    *
    * @returns DeepPathInfo or null if validation fails
    */
   private _parseDeepPath(
-    key: string,
-    dotIndex: number,
+    storageKey: string,
+    pathSegments: string[],
     operation: DeepOperation
   ): DeepPathInfo | null {
-    // 1. Split storage key and deep path
-    const storageKey = key.slice(0, dotIndex)
-    const deepPath = key.slice(dotIndex + 1)
-    const pathSegments = parsePath(deepPath)
-
-    // 2. Get root value from storage
-    const rawValue = this.adapter.getItem(storageKey)
+    // 1. Get root entry from storage (validated when reading)
+    const entry =
+      operation === 'get'
+        ? this._readValidEntry(storageKey)
+        : this._readEntry(storageKey)
 
     // Handle non-existent key based on operation
-    if (rawValue === null) {
+    if (entry === null) {
       if (operation === 'get') {
         return null // Will return defaultValue in caller
       }
@@ -203,18 +798,16 @@ export class Storadapt {
         console.warn(`Key "${storageKey}" does not exist`)
         return null
       }
-      if (operation === 'set') {
-        // Create new root based on first segment
-        const rootValue = isArrayIndex(pathSegments[0]) ? [] : {}
-        return { storageKey, pathSegments, rootValue }
-      }
+      // operation === 'set': create new root based on first segment
+      const rootValue = isArrayIndex(pathSegments[0]) ? [] : {}
+      return { storageKey, pathSegments, rootValue, meta: {} }
     }
 
-    // 3. Parse JSON
-    const rootValue = deserialize(rawValue)
+    // 2. Use the unwrapped value
+    const { value: rootValue, meta } = entry
 
-    // 4. Validate first segment type
-    if (!this._validateFirstSegment(rootValue, pathSegments[0])) {
+    // 3. Validate first segment type
+    if (!matchesRootType(rootValue, pathSegments[0])) {
       const expectedType = isArrayIndex(pathSegments[0]) ? 'array' : 'object'
       console.warn(
         `Type mismatch: expected ${expectedType} for key "${storageKey}", got ${typeof rootValue}`
@@ -222,133 +815,592 @@ export class Storadapt {
       return null
     }
 
-    return { storageKey, pathSegments, rootValue }
+    return { storageKey, pathSegments, rootValue, meta }
   }
 
   /**
-   * Save value back to storage
+   * Read the value at a key or deep path, compute its replacement and
+   * persist it in one write (missing parents are created)
+   *
+   * @param modify - Returns the new value and the result of the call,
+   * or undefined to skip the write. Receives null when the value is missing
+   * @param fallback - Result when the write is skipped or on error
    */
-  private _saveToStorage(key: string, value: any): void {
-    const serialized = serialize(value)
-    this.adapter.setItem(key, serialized)
+  private _modifyValue<R>(
+    method: string,
+    key: KeyPath,
+    fallback: R,
+    modify: (current: any) => { value: any; result: R } | undefined
+  ): R {
+    try {
+      const { storageKey, pathSegments } = splitKey(key)
+      const entry = this._readEntry(storageKey)
+
+      const rootValue = entry?.value ?? null
+      const current =
+        pathSegments.length === 0 || rootValue === null
+          ? rootValue
+          : getDeep(rootValue, pathSegments, { defaultValue: null })
+
+      const modified = modify(current)
+      if (!modified) return fallback
+
+      let newRootValue = modified.value
+      if (pathSegments.length > 0) {
+        newRootValue = rootValue ?? (isArrayIndex(pathSegments[0]) ? [] : {})
+        setDeep(newRootValue, pathSegments, modified.value, {
+          createPath: true
+        })
+      }
+
+      this._saveToStorage(storageKey, newRootValue, entry?.meta)
+      return modified.result
+    } catch (error) {
+      if (error instanceof StoradaptError) throw error
+      errorLogger(
+        `Storadapt.${method} error for key "${stringifyPath(key)}"`,
+        error
+      )
+      return fallback
+    }
   }
 
   /**
-   * Simple get (without deep path)
+   * Write staged raw values, restoring the previous ones when a write fails
+   * Change events are emitted once everything is written
    */
-  private _getSimple<T = any>(key: string, options?: GetOptions<T>): T | null {
+  private _commit(changes: Map<string, string | null>): void {
+    const previous = new Map<string, string | null>()
+
+    try {
+      for (const [key, rawValue] of changes) {
+        previous.set(key, this.adapter.getItem(key))
+        this.cache?.delete(key)
+
+        if (rawValue === null) {
+          this.adapter.removeItem(key)
+        } else {
+          this._setItem(key, rawValue)
+        }
+      }
+    } catch (error) {
+      for (const [key, rawValue] of previous) {
+        try {
+          if (rawValue === null) {
+            this.adapter.removeItem(key)
+          } else {
+            this.adapter.setItem(key, rawValue)
+          }
+        } catch (restoreError) {
+          errorLogger(
+            `Storadapt.transaction rollback error for key "${key}"`,
+            restoreError
+          )
+        }
+      }
+
+      throw error
+    }
+
+    for (const [key, rawValue] of changes) {
+      this.sync?.broadcast(key, rawValue)
+
+      if (this.listeners.size) {
+        const oldValue = this._decodeRaw(previous.get(key) ?? null)
+        const newValue = this._decodeRaw(rawValue)
+
+        if (oldValue !== null || newValue !== null) {
+          this._emitChange({ key, oldValue, newValue, source: 'local' })
+        }
+      }
+    }
+  }
+
+  /**
+   * Mutate the array at a key or deep path in place, then persist it
+   * in one write
+   *
+   * @param create - Create the array (and missing parents) when missing
+   * @param fallback - Result when the array is missing or on error
+   */
+  private _updateArray<R>(
+    method: string,
+    key: KeyPath,
+    create: boolean,
+    fallback: R,
+    mutate: (array: any[]) => R
+  ): R {
+    return this._modifyValue(method, key, fallback, (current) => {
+      if (current === null && !create) return
+
+      const array = current ?? []
+      if (!Array.isArray(array)) {
+        console.warn(
+          `Type mismatch: expected array at "${stringifyPath(key)}", got ${typeof array}`
+        )
+        return
+      }
+
+      return { value: array, result: mutate(array) }
+    })
+  }
+
+  /**
+   * Read and unwrap a stored entry
+   * Expired entries are removed and reported as missing,
+   * outdated entries are migrated and persisted
+   * The returned entry belongs to the caller: pending and cached entries
+   * are copied, so that mutating it changes neither
+   * @param shared - Return pending and cached entries as-is, for reads
+   * that never mutate the entry
+   */
+  private _readEntry<T = any>(
+    key: string,
+    shared = false
+  ): StoredEntry<T> | null {
+    if (this.pending.has(key)) {
+      const entry = this.pending.get(key)
+      if (!entry || isExpired(entry.meta)) return null
+
+      return shared ? entry : cloneEntry(entry)
+    }
+
+    const cached = this.cache?.get(key)
+
+    if (cached && !isExpired(cached.meta)) {
+      this._touch(key)
+      return shared ? cached : cloneEntry(cached)
+    }
+
     const rawValue = this.adapter.getItem(key)
 
     if (rawValue === null) {
-      return options?.defaultValue ?? null
+      return null
+    }
+
+    const entry = unwrapEntry<T>(deserialize(rawValue, this.serializer))
+
+    if (isExpired(entry.meta)) {
+      this.adapter.removeItem(key)
+      this.cache?.delete(key)
+      return null
     }
 
-    return deserialize<T>(rawValue)
+    const upgraded = this._migrateEntry(key, entry)
+    if (upgraded) {
+      this._saveToStorage(key, upgraded.value, upgraded.meta)
+      return upgraded
+    }
+
+    this._touch(key)
+
+    if (!this.cache) return entry
+
+    this.cache.set(key, entry, rawValue.length)
+    return shared ? entry : cloneEntry(entry)
   }
 
   /**
-   * Get deep path value
+   * Copy a value read from a shared entry before handing it out
    */
-  private _getDeep(obj: any, path: string[], options?: GetDeepOptions): any {
-    const { defaultValue } = options || {}
+  private _ownValue<T>(value: T): T {
+    const shared = this.cache !== null || this.writeBehind !== null
+    return shared && typeof value === 'object' && value !== null
+      ? structuredClone(value)
+      : value
+  }
 
-    const hasDefaultValue = defaultValue !== undefined
+  /**
+   * Record a read of `key` for LRU eviction
+   */
+  private _touch(key: string): void {
+    if (this.quota.evict === 'lru') {
+      this.accessedAt.set(key, Date.now())
+    }
+  }
 
-    try {
-      const result = traversePath(obj, path, {
-        shouldThrowError: () => !hasDefaultValue
-      })
+  /**
+   * Run pending migrations on an entry
+   * @returns The upgraded entry, or null when already up to date
+   */
+  private _migrateEntry<T = any>(
+    key: string,
+    entry: StoredEntry<T>
+  ): StoredEntry<T> | null {
+    const config = this._migrationFor(key)
+    const fromVersion = entry.meta.version ?? 0
+
+    if (!config || fromVersion >= config.version) {
+      return null
+    }
+
+    let value: any = entry.value
+    for (let version = fromVersion; version < config.version; version++) {
+      const migration = config.migrations?.[version]
+      if (migration) {
+        value = migration(value)
+      }
+    }
+
+    return { value, meta: { ...entry.meta, version: config.version } }
+  }
+
+  /**
+   * Versioning configuration applying to a storage key
+   */
+  private _migrationFor(key: string): MigrationConfig | null {
+    return this.migrations.get(key) ?? this.defaultMigration
+  }
 
-      const emptyResult = result === undefined || result === null
-      if (emptyResult && hasDefaultValue) {
-        return defaultValue
+  /**
+   * Read entry and check it against the schema of its key
+   * Invalid entries are handled according to the schema policy
+   * The entry may be shared with the cache: callers must not mutate it
+   */
+  private _readValidEntry<T = any>(key: string): StoredEntry<T> | null {
+    const entry = this._readEntry<T>(key, true)
+    const definition = this.schemas.get(key)
+
+    if (entry === null || !definition) {
+      return entry
+    }
+
+    const result = runSchema<T>(definition.schema, entry.value)
+    if (result.success) {
+      return { ...entry, value: result.value }
+    }
+
+    const error = new StoradaptValidationError(key, result.issues)
+    const policy = definition.onInvalid ?? 'default'
+
+    if (policy === 'throw') throw error
+
+    console.warn(error.message)
+    if (policy === 'remove') {
+      this._removeFromStorage(key)
+    }
+
+    return null
+  }
+
+  /**
+   * Save value back to storage
+   * Values failing the schema of their key are not written
+   */
+  private _saveToStorage(key: string, value: any, meta?: EntryMeta): void {
+    const definition = this.schemas.get(key)
+
+    if (definition) {
+      const result = runSchema(definition.schema, value)
+
+      if (!result.success) {
+        const error = new StoradaptValidationError(key, result.issues)
+        if (definition.onInvalid === 'throw') throw error
+
+        console.warn(`${error.message}, write skipped`)
+        return
       }
 
-      return result
+      value = result.value
+    }
+
+    const migration = this._migrationFor(key)
+    if (migration) {
+      meta = { ...meta, version: migration.version }
+    }
+
+    // Write times order `oldest`, `lru` and `priority` evictions
+    const { evict } = this.quota
+    if (evict && evict !== 'expired') {
+      const now = Date.now()
+      meta = { ...meta, writtenAt: now }
+      if (evict === 'lru') this.accessedAt.set(key, now)
+    }
+
+    const oldValue = this.listeners.size ? this._peekValue(key) : null
+    const entry = { value, meta: meta ?? {} }
+
+    if (this.writeBehind) {
+      this.cache?.delete(key)
+      // Stage a copy, so that later mutations of `value` are not persisted
+      this.pending.set(key, cloneEntry(entry))
+      this.writeBehind.schedule()
+    } else {
+      this._persist(key, entry)
+    }
+
+    this._emitChange({ key, oldValue, newValue: value, source: 'local' })
+  }
+
+  /**
+   * Remove key from storage
+   * @param immediate - Bypass write-behind mode, e.g. to free space
+   */
+  private _removeFromStorage(key: string, immediate = false): void {
+    const oldValue = this.listeners.size ? this._peekValue(key) : null
+
+    this.accessedAt.delete(key)
+
+    if (this.writeBehind && !immediate) {
+      this.cache?.delete(key)
+      this.pending.set(key, null)
+      this.writeBehind.schedule()
+    } else {
+      this.pending.delete(key)
+      this._persist(key, null)
+    }
+
+    if (oldValue !== null) {
+      this._emitChange({ key, oldValue, newValue: null, source: 'local' })
+    }
+  }
+
+  /**
+   * Write an entry to the adapter (remove it when null)
+   * and share the change with other tabs
+   */
+  private _persist(key: string, entry: StoredEntry | null): void {
+    this.cache?.delete(key)
+
+    if (entry === null) {
+      this.adapter.removeItem(key)
+      this.sync?.broadcast(key, null)
+      return
+    }
+
+    const serialized = serialize(
+      wrapEntry(entry.value, entry.meta),
+      this.serializer
+    )
+    this._setItem(key, serialized)
+    this.sync?.broadcast(key, serialized)
+  }
+
+  /**
+   * Persist pending writes, logging failures
+   */
+  private _flushPending(): void {
+    if (this.pending.size === 0) return
+
+    try {
+      this.flush()
     } catch (error) {
-      if (hasDefaultValue) return defaultValue
-      throw error
+      errorLogger(`Storadapt write-behind error`, error)
     }
   }
 
   /**
-   * Set deep path value
+   * Write a raw value, evicting entries while the quota is exceeded
    */
-  private _setDeep(
-    obj: any,
-    path: string[],
-    value?: any,
-    options?: SetDeepOptions
-  ): void {
-    const { remove = false, createPath = false } = options || {}
+  private _setItem(key: string, serialized: string): void {
+    let quotaError: unknown
 
-    // Traverse to parent object
-    const parent = traversePath(obj, path, {
-      stopBeforeLast: true,
-      createPath
-    })
+    try {
+      this.adapter.setItem(key, serialized)
+      return
+    } catch (error) {
+      if (!isQuotaExceededError(error)) throw error
+      quotaError = error
+    }
+
+    for (const victim of this._evictionCandidates(key)) {
+      this._removeFromStorage(victim, true)
 
-    // Handle last level
-    const lastSegment = path[path.length - 1]
-
-    // Helper function to set or remove value
-    const setOrRemove = (
-      target: Record<string | number, any>,
-      key: string | number
-    ): void => {
-      if (remove && !isArrayIndex(lastSegment)) {
-        delete target[key]
-      } else {
-        target[key] = value
+      try {
+        this.adapter.setItem(key, serialized)
+        return
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error
+        quotaError = error
       }
     }
 
-    if (isArrayIndex(lastSegment)) {
-      if (!Array.isArray(parent)) {
-        throw new TypeError(`${path.slice(0, -1).join('.')} is not an array`)
+    throw new StorageQuotaError(key, { cause: quotaError })
+  }
+
+  /**
+   * Keys to evict, in order, to make room for a write to `key`
+   * Expired entries always come first. Only entries written by Storadapt
+   * are candidates: expired ones, and the ones carrying a write time.
+   * Foreign and undecodable values are never evicted
+   */
+  private _evictionCandidates(key: string): string[] {
+    const { evict } = this.quota
+    if (!evict) return []
+
+    const now = Date.now()
+    const expired: string[] = []
+    const alive: { key: string; meta: EntryMeta }[] = []
+
+    for (const candidate of this._keys()) {
+      if (candidate === key) continue
+
+      let meta: EntryMeta
+      try {
+        const rawValue = this.adapter.getItem(candidate)
+        if (rawValue === null) continue
+        meta = unwrapEntry(deserialize(rawValue, this.serializer)).meta
+      } catch {
+        continue
       }
 
-      const lastIndex = Number.parseInt(lastSegment, 10)
+      if (isExpired(meta, now)) {
+        expired.push(candidate)
+      } else if (meta.writtenAt !== undefined) {
+        alive.push({ key: candidate, meta })
+      }
+    }
+
+    if (evict === 'expired') return expired
 
-      if (lastIndex < 0) {
-        throw new Error(`Array index ${lastIndex} cannot be negative`)
+    const lastUse = ({ key, meta }: { key: string; meta: EntryMeta }) =>
+      (evict === 'lru' ? this.accessedAt.get(key) : undefined) ??
+      meta.writtenAt!
+
+    alive.sort((a, b) => {
+      if (evict === 'priority') {
+        const byPriority = (a.meta.priority ?? 0) - (b.meta.priority ?? 0)
+        if (byPriority !== 0) return byPriority
       }
+      return lastUse(a) - lastUse(b)
+    })
 
-      if (lastIndex >= parent.length) {
-        if (!createPath) {
-          throw new Error(`Array index ${lastIndex} out of bounds`)
-        }
-        while (parent.length <= lastIndex) {
-          parent.push(undefined)
+    return [...expired, ...alive.map((entry) => entry.key)]
+  }
+
+  /**
+   * Read current value without side effects (no lazy expiration)
+   */
+  private _peekValue(key: string): any {
+    if (this.pending.has(key)) {
+      const entry = this.pending.get(key)
+      return !entry || isExpired(entry.meta)
+        ? null
+        : structuredClone(entry.value)
+    }
+
+    return this._decodeRaw(this.adapter.getItem(key))
+  }
+
+  /**
+   * Decode a raw stored string into its value (null when missing or expired)
+   */
+  private _decodeRaw(rawValue: string | null): any {
+    if (rawValue === null) return null
+
+    const { value, meta } = unwrapEntry(deserialize(rawValue, this.serializer))
+    return isExpired(meta) ? null : value
+  }
+
+  /**
+   * Dispatch a change made by another tab
+   */
+  private _applyExternalChange(
+    key: string,
+    newRaw: string | null,
+    oldRaw: string | null,
+    mirror: boolean
+  ): void {
+    try {
+      // The other tab wrote last, drop our pending write
+      this.cache?.delete(key)
+      this.pending.delete(key)
+
+      if (mirror) {
+        oldRaw = this.adapter.getItem(key)
+
+        if (newRaw === null) {
+          this.adapter.removeItem(key)
+        } else {
+          this.adapter.setItem(key, newRaw)
         }
       }
 
-      setOrRemove(parent, lastIndex)
-    } else {
-      if (!isObject(parent)) {
-        throw new Error(`${path.slice(0, -1).join('.')} is not an object`)
+      this._emitChange({
+        key,
+        oldValue: this._decodeRaw(oldRaw),
+        newValue: this._decodeRaw(newRaw),
+        source: 'external'
+      })
+    } catch (error) {
+      errorLogger(`Storadapt sync error for key "${key}"`, error)
+    }
+  }
+
+  /**
+   * Dispatch a clear made by another tab
+   * The cleared values are gone, so removals are only emitted for the
+   * values this instance still holds: cached values and pending writes
+   */
+  private _applyExternalClear(): void {
+    try {
+      const known = new Map<string, StoredEntry | null>(this.cache?.entries())
+      // Pending writes are newer than cached values
+      this.pending.forEach((entry, key) => known.set(key, entry))
+
+      this.writeBehind?.cancel()
+      this.pending.clear()
+      this.cache?.clear()
+      this.accessedAt.clear()
+
+      for (const [key, entry] of known) {
+        if (entry === null || isExpired(entry.meta)) continue
+
+        this._emitChange({
+          key,
+          oldValue: entry.value,
+          newValue: null,
+          source: 'external'
+        })
       }
+    } catch (error) {
+      errorLogger(`Storadapt sync error on clear`, error)
+    }
+  }
 
-      setOrRemove(parent, lastSegment)
+  /**
+   * Notify change listeners
+   * Listener errors are logged so they never break storage operations
+   */
+  private _emitChange(event: ChangeEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        errorLogger(
+          `Storadapt change listener error for key "${event.key}"`,
+          error
+        )
+      }
     }
   }
 
   /**
-   * Validate first segment type matches value type
+   * Collect all storage keys up front, so callers may remove keys while
+   * iterating without shifting indexes
    */
-  private _validateFirstSegment(value: any, firstSegment: string): boolean {
-    const expectArray = isArrayIndex(firstSegment)
+  private _keys(): string[] {
+    const keys: string[] = []
+    const length = this.adapter.length()
 
-    if (expectArray) {
-      return Array.isArray(value)
-    } else {
-      return isObject(value)
+    for (let i = 0; i < length; i++) {
+      const key = this.adapter.key(i)
+      if (key !== null) keys.push(key)
     }
+
+    return keys
   }
-}
 
-function errorLogger(msg: string, error: unknown) {
-  console.info('')
-  console.error(`${msg}:\n`, error)
-  console.info('')
+  /**
+   * Simple get (without deep path)
+   */
+  private _getSimple<T = any>(key: string, options?: GetOptions<T>): T | null {
+    const entry = this._readValidEntry<T>(key)
+
+    if (entry === null) {
+      return options?.defaultValue ?? null
+    }
+
+    return this._ownValue(entry.value)
+  }
 }
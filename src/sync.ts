@@ -0,0 +1,120 @@
+import type {
+  BroadcastChannelLike,
+  BrowserStorageType,
+  StorageEventLike,
+  StorageEventTarget,
+  SyncMessage,
+  SyncOptions
+} from './types'
+
+/**
+ * Receives raw values changed by another tab.
+ * `mirror` is true when the local adapter does not hold the change yet
+ */
+export type ExternalChangeHandler = (
+  key: string,
+  newValue: string | null,
+  oldValue: string | null,
+  mirror: boolean
+) => void
+
+export interface StorageSync {
+  /**
+   * Share a local write with other tabs
+   */
+  broadcast: (key: string, newValue: string | null) => void
+  /**
+   * Detach all listeners and close the channel
+   */
+  destroy: () => void
+}
+
+/**
+ * Listen to cross-tab changes from `storage` events and a broadcast channel
+ * @param onClear - Called when another tab cleared the whole storage
+ */
+export const createStorageSync = (
+  options: SyncOptions,
+  onChange: ExternalChangeHandler,
+  onClear?: () => void
+): StorageSync => {
+  const target: StorageEventTarget | false =
+    options.target ??
+    (typeof window === 'undefined' ? false : (window as StorageEventTarget))
+
+  const onStorage = (event: StorageEventLike) => {
+    if (options.storageArea && event.storageArea !== options.storageArea) {
+      return
+    }
+
+    // `key` is null when another tab cleared the whole storage
+    if (event.key === null) {
+      onClear?.()
+      return
+    }
+
+    onChange(event.key, event.newValue, event.oldValue, false)
+  }
+
+  if (target) {
+    target.addEventListener('storage', onStorage)
+  }
+
+  const channel = resolveChannel(options.channel)
+  const ownsChannel = typeof options.channel === 'string'
+
+  const onMessage = ({ data }: { data: SyncMessage }) => {
+    if (!data || typeof data.key !== 'string') return
+
+    onChange(data.key, data.newValue, null, true)
+  }
+
+  channel?.addEventListener('message', onMessage)
+
+  return {
+    broadcast: (key, newValue) => {
+      channel?.postMessage({ key, newValue })
+    },
+    destroy: () => {
+      if (target) {
+        target.removeEventListener('storage', onStorage)
+      }
+
+      if (channel) {
+        channel.removeEventListener('message', onMessage)
+        if (ownsChannel) channel.close?.()
+      }
+    }
+  }
+}
+
+function resolveChannel(
+  channel: SyncOptions['channel']
+): BroadcastChannelLike | null {
+  if (!channel) return null
+
+  if (typeof channel !== 'string') return channel
+
+  if (typeof BroadcastChannel === 'undefined') {
+    console.warn(`BroadcastChannel is not available in this environment`)
+    return null
+  }
+
+  return new BroadcastChannel(channel) as unknown as BroadcastChannelLike
+}
+
+/**
+ * Default sync options for a browser storage type
+ */
+export const resolveBrowserSyncOptions = (
+  type: BrowserStorageType,
+  sync: true | SyncOptions
+): SyncOptions => {
+  return {
+    target: window,
+    storageArea: window[type],
+    // sessionStorage is per tab, so its `storage` events never cross tabs
+    channel: type === 'sessionStorage' ? `storadapt:${type}` : false,
+    ...(sync === true ? {} : sync)
+  }
+}
@@ -0,0 +1,213 @@
+import type {
+  StorageAdapter,
+  TieredStorageAdapter,
+  TieredStoragePolicy
+} from './types'
+
+import { errorLogger } from './util'
+import { createWriteBehind } from './write-behind'
+
+/**
+ * Storage adapter over several tiers, fastest first
+ * (e.g. memory, sessionStorage, localStorage)
+ * - Reads go down the tiers until a value is found, then copy it into
+ *   the tiers above (`promote`)
+ * - Writes go to every tier down to the key's lowest tier (`through`),
+ *   or to the first tier, the lower ones being updated later (`back`)
+ *
+ * A key is stored down to the tier of its first matching route, or down to
+ * the last tier. `length` and `key` enumerate the keys of every tier,
+ * without duplicates
+ */
+export const createTieredAdapter = (
+  tiers: StorageAdapter[],
+  policy?: TieredStoragePolicy
+): TieredStorageAdapter => {
+  const { write = 'through', promote = true, routes = [] } = policy ?? {}
+
+  if (tiers.length === 0) {
+    throw new TypeError('createTieredAdapter needs at least one tier')
+  }
+
+  const lastTier = tiers.length - 1
+  for (const { tier } of routes) {
+    if (!Number.isInteger(tier) || tier < 0 || tier > lastTier) {
+      throw new RangeError(
+        `Route tier ${tier} is out of range, expected 0 to ${lastTier}`
+      )
+    }
+  }
+
+  // Write-back writes not applied to the lower tiers yet, null for removals
+  const dirty = new Map<string, string | null>()
+
+  const tierOf = (key: string) => {
+    const route = routes.find(({ match }) =>
+      typeof match === 'string' ? key.startsWith(match) : match.test(key)
+    )
+    return route?.tier ?? lastTier
+  }
+
+  /**
+   * Copy a value into an upper tier, which only speeds up reads:
+   * when that fails, drop the tier's copy rather than keep a stale one
+   */
+  const cacheIn = (tier: number, key: string, value: string) => {
+    try {
+      tiers[tier].setItem(key, value)
+    } catch {
+      try {
+        tiers[tier].removeItem(key)
+      } catch {}
+    }
+  }
+
+  /**
+   * Write tiers `to` up to `from`, lowest first, so that a failed write
+   * never leaves a newer value above an older one
+   */
+  const writeTiers = (
+    key: string,
+    value: string | null,
+    from: number,
+    to: number
+  ) => {
+    for (let tier = to; tier >= from; tier--) {
+      if (value === null) {
+        tiers[tier].removeItem(key)
+      } else if (tier === to) {
+        tiers[tier].setItem(key, value)
+      } else {
+        cacheIn(tier, key, value)
+      }
+    }
+  }
+
+  const flush = () => {
+    scheduler?.cancel()
+    let failure: { error: unknown } | null = null
+
+    for (const [key, value] of [...dirty]) {
+      try {
+        writeTiers(key, value, 1, tierOf(key))
+        dirty.delete(key)
+      } catch (error) {
+        if (failure) {
+          errorLogger(`Tiered storage write error for key "${key}"`, error)
+        } else {
+          failure = { error }
+        }
+      }
+    }
+
+    if (failure) throw failure.error
+  }
+
+  const flushPending = () => {
+    try {
+      flush()
+    } catch (error) {
+      errorLogger(`Tiered storage write error`, error)
+    }
+  }
+
+  const scheduler =
+    write === 'back'
+      ? createWriteBehind(policy?.writeBack ?? {}, flushPending)
+      : null
+
+  const markDirty = (key: string, value: string | null) => {
+    // Keep pending writes in the order they were last made
+    dirty.delete(key)
+    dirty.set(key, value)
+    scheduler!.schedule()
+  }
+
+  const getItem = (key: string): string | null => {
+    key = String(key)
+    if (dirty.has(key)) return dirty.get(key)!
+
+    const to = tierOf(key)
+    for (let tier = 0; tier <= to; tier++) {
+      const value = tiers[tier].getItem(key)
+      if (value === null) continue
+
+      if (promote) {
+        for (let upper = tier - 1; upper >= 0; upper--) {
+          cacheIn(upper, key, value)
+        }
+      }
+      return value
+    }
+
+    return null
+  }
+
+  const setItem = (key: string, value: string) => {
+    key = String(key)
+    value = String(value)
+    const to = tierOf(key)
+
+    if (write === 'back' && to > 0) {
+      tiers[0].setItem(key, value)
+      markDirty(key, value)
+    } else {
+      writeTiers(key, value, 0, to)
+    }
+  }
+
+  const removeItem = (key: string) => {
+    key = String(key)
+    const to = tierOf(key)
+
+    if (write === 'back' && to > 0) {
+      tiers[0].removeItem(key)
+      markDirty(key, null)
+    } else {
+      writeTiers(key, null, 0, to)
+    }
+  }
+
+  /**
+   * Keys readable through the adapter, in tier order
+   */
+  const keys = (): string[] => {
+    const union = new Set<string>()
+
+    tiers.forEach((adapter, tier) => {
+      const length = adapter.length()
+
+      for (let i = 0; i < length; i++) {
+        const key = adapter.key(i)
+        // Copies below the key's lowest tier are never read
+        if (key !== null && tier <= tierOf(key)) union.add(key)
+      }
+    })
+
+    // Removed from the first tier, still stored below
+    dirty.forEach((value, key) => {
+      if (value === null) union.delete(key)
+    })
+
+    return [...union]
+  }
+
+  return {
+    getItem,
+    setItem,
+    removeItem,
+    clear: () => {
+      scheduler?.cancel()
+      dirty.clear()
+      for (let tier = lastTier; tier >= 0; tier--) tiers[tier].clear()
+    },
+    key: (index: number) => keys()[index] ?? null,
+    length: () => keys().length,
+    persistent: tiers.some((adapter) => adapter.persistent !== false),
+    flush,
+    destroy: () => {
+      flushPending()
+      scheduler?.destroy()
+    }
+  }
+}
@@ -11,6 +11,657 @@ export interface StorageAdapter {
   clear: () => void
   length: () => number
   key: (index: number) => string | null
+  /**
+   * False when values are lost with the page or the process (e.g. memory)
+   * @default true
+   */
+  readonly persistent?: boolean
+}
+
+/**
+ * Asynchronous storage adapter interface, for backends such as IndexedDB,
+ * remote key-value stores or fs/promises
+ */
+export interface AsyncStorageAdapter {
+  getItem: (key: string) => Promise<string | null>
+  setItem: (key: string, value: string) => Promise<void>
+  removeItem: (key: string) => Promise<void>
+  clear: () => Promise<void>
+  length: () => Promise<number>
+  key: (index: number) => Promise<string | null>
+}
+
+/**
+ * Minimal shape of a `StorageEvent`
+ */
+export interface StorageEventLike {
+  key: string | null
+  oldValue: string | null
+  newValue: string | null
+  storageArea?: unknown
+}
+
+/**
+ * Event target dispatching `storage` events (usually `window`)
+ */
+export interface StorageEventTarget {
+  addEventListener: (
+    type: 'storage',
+    listener: (event: StorageEventLike) => void
+  ) => void
+  removeEventListener: (
+    type: 'storage',
+    listener: (event: StorageEventLike) => void
+  ) => void
+}
+
+/**
+ * Message exchanged over the sync broadcast channel
+ */
+export interface SyncMessage {
+  key: string
+  newValue: string | null
+}
+
+/**
+ * Minimal shape of a `BroadcastChannel`
+ */
+export interface BroadcastChannelLike {
+  postMessage: (message: SyncMessage) => void
+  addEventListener: (
+    type: 'message',
+    listener: (event: { data: SyncMessage }) => void
+  ) => void
+  removeEventListener: (
+    type: 'message',
+    listener: (event: { data: SyncMessage }) => void
+  ) => void
+  close?: () => void
+}
+
+/**
+ * Cross-tab synchronization options
+ */
+export interface SyncOptions {
+  /**
+   * Target dispatching `storage` events, `false` to ignore them
+   * @default window
+   */
+  target?: StorageEventTarget | false
+
+  /**
+   * Only accept `storage` events whose `storageArea` is this object
+   */
+  storageArea?: unknown
+
+  /**
+   * Broadcast channel (or its name) used to share writes between tabs,
+   * needed for `sessionStorage`, which never fires cross-tab `storage` events.
+   * Received writes are mirrored into the local adapter
+   */
+  channel?: string | BroadcastChannelLike | false
+}
+
+/**
+ * Issue reported by a schema
+ */
+export interface SchemaIssue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly SchemaIssue[] }
+
+/**
+ * Standard Schema v1 interface (https://standardschema.dev),
+ * implemented by Zod, Valibot, ArkType and others
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+    readonly types?: { readonly input: Input; readonly output: Output }
+  }
+}
+
+/**
+ * Plain parser function, returning the (possibly transformed) value
+ * or throwing when it is invalid
+ */
+export type SchemaParser<T = any> = (value: unknown) => T
+
+/**
+ * Validator accepted by the schema registry
+ */
+export type Schema<T = any> = StandardSchemaV1<unknown, T> | SchemaParser<T>
+
+/**
+ * What to do when a value fails its schema
+ * - `throw`: throw a `StoradaptValidationError`
+ * - `default`: treat the value as missing (`get` returns `defaultValue`,
+ *   `set` skips the write)
+ * - `remove`: like `default`, and also remove an invalid stored key
+ */
+export type InvalidPolicy = 'throw' | 'default' | 'remove'
+
+/**
+ * Options for a registered schema
+ */
+export interface SchemaOptions {
+  /**
+   * @default 'default'
+   */
+  onInvalid?: InvalidPolicy
+}
+
+/**
+ * Schema registry entry
+ */
+export interface SchemaDefinition<T = any> extends SchemaOptions {
+  schema: Schema<T>
+}
+
+/**
+ * Upgrades a value from one version to the next
+ */
+export type Migration = (value: any) => any
+
+/**
+ * Versioning configuration for stored values
+ */
+export interface MigrationConfig {
+  /**
+   * Current version, stamped on every write
+   */
+  version: number
+
+  /**
+   * Migrations keyed by the version they upgrade from:
+   * `migrations[1]` turns a version 1 value into a version 2 value.
+   * Missing steps keep the value unchanged
+   */
+  migrations?: Record<number, Migration>
+}
+
+/**
+ * Options for AsyncStoradapt instances
+ */
+export interface AsyncStoradaptOptions {
+  /**
+   * Serializer for stored values
+   * @default superjsonSerializer
+   */
+  serializer?: Serializer
+}
+
+/**
+ * Options for Storadapt instances
+ */
+export interface StoradaptOptions {
+  /**
+   * Serializer for stored values
+   * @default superjsonSerializer
+   */
+  serializer?: Serializer
+
+  /**
+   * Dispatch changes made by other tabs to `on('change')` and `watch`
+   */
+  sync?: SyncOptions
+
+  /**
+   * Schemas validating the whole value of a storage key on `get` and `set`
+   */
+  schemas?: Record<string, Schema | SchemaDefinition>
+
+  /**
+   * Versioning for specific storage keys
+   */
+  migrations?: Record<string, MigrationConfig>
+
+  /**
+   * Versioning for every storage key without its own entry in `migrations`
+   */
+  defaultMigration?: MigrationConfig
+
+  /**
+   * What to do when a write exceeds the storage quota
+   */
+  quota?: QuotaOptions
+
+  /**
+   * Keep deserialized values in memory, so repeated reads skip
+   * `getItem` and deserialization
+   */
+  cache?: boolean | CacheOptions
+
+  /**
+   * Keep writes in memory and persist them once writes pause,
+   * instead of serializing and writing on every call
+   */
+  writeBehind?: boolean | WriteBehindOptions
+}
+
+/**
+ * Order in which entries are evicted when the storage quota is exceeded
+ * - `expired`: only remove expired entries
+ * - `oldest`: oldest-written first
+ * - `lru`: least recently used first (reads are tracked per instance)
+ * - `priority`: lowest `priority` first, then oldest-written
+ *
+ * Every strategy removes expired entries first
+ */
+export type EvictionStrategy = 'expired' | 'oldest' | 'lru' | 'priority'
+
+/**
+ * Quota handling for Storadapt
+ */
+export interface QuotaOptions {
+  /**
+   * Evict entries and retry when a write exceeds the quota.
+   * Without it, or when nothing can be freed, the write throws
+   * a `StorageQuotaError`
+   */
+  evict?: EvictionStrategy
+}
+
+/**
+ * Timing of write-behind persistence
+ */
+export interface WriteBehindOptions {
+  /**
+   * Time (in ms) without writes before pending writes are persisted
+   * @default 300
+   */
+  delay?: number
+
+  /**
+   * Longest time (in ms) a write stays pending while writes keep coming
+   * @default 2000
+   */
+  maxWait?: number
+
+  /**
+   * Persist pending writes on `pagehide` in browsers
+   * and on `beforeExit` in Node.js
+   * @default true
+   */
+  flushOnExit?: boolean
+}
+
+/**
+ * Limits of the Storadapt read cache
+ * Least recently read keys are dropped first when a limit is reached
+ */
+export interface CacheOptions {
+  /**
+   * Maximum number of cached storage keys
+   * @default 100
+   */
+  maxEntries?: number
+
+  /**
+   * Maximum total length (in UTF-16 code units) of the stored strings
+   * behind the cached values
+   * @default Infinity
+   */
+  maxSize?: number
+}
+
+/**
+ * Counters of the Storadapt read cache
+ */
+export interface CacheStats {
+  /**
+   * Reads served from the cache
+   */
+  hits: number
+
+  /**
+   * Reads that had to load the value from the adapter
+   */
+  misses: number
+
+  /**
+   * Values dropped to stay within the limits
+   */
+  evictions: number
+
+  /**
+   * Number of cached storage keys
+   */
+  entries: number
+
+  /**
+   * Total length of the stored strings behind the cached values
+   */
+  size: number
+
+  /**
+   * `hits / (hits + misses)`, 0 before the first read
+   */
+  hitRate: number
+}
+
+/**
+ * Options for createMemoryStorageAdapter
+ */
+export interface MemoryStorageOptions {
+  /**
+   * Maximum size in bytes, counted like Web Storage:
+   * 2 bytes per UTF-16 code unit of every key and value
+   * @default Infinity
+   */
+  maxSize?: number
+}
+
+/**
+ * Options for createCookieStorageAdapter
+ */
+export interface CookieStorageOptions {
+  /**
+   * Prefix of the cookie names owned by the adapter. `length`, `key` and
+   * `clear` only see these cookies. Pass '' to use every cookie
+   * @default 'storadapt.'
+   */
+  prefix?: string
+
+  /**
+   * @default '/'
+   */
+  path?: string
+
+  domain?: string
+
+  /**
+   * @default 'lax'
+   */
+  sameSite?: 'strict' | 'lax' | 'none'
+
+  /**
+   * @default true with `sameSite: 'none'`, false otherwise
+   */
+  secure?: boolean
+
+  /**
+   * Lifetime of written cookies in seconds, session cookies when unset
+   */
+  maxAge?: number
+
+  /**
+   * Maximum length of one cookie's name and value. Longer values
+   * are split across several cookies
+   * @default 4000
+   */
+  maxCookieSize?: number
+
+  /**
+   * `Cookie` header of the incoming request, on the server
+   */
+  cookieHeader?: string
+
+  /**
+   * Receives a `Set-Cookie` header value for every written cookie,
+   * on the server
+   */
+  onSetCookie?: (header: string) => void
+}
+
+/**
+ * Options for createIndexedDBStorageAdapter
+ */
+export interface IndexedDBStorageOptions {
+  /**
+   * @default 'storadapt'
+   */
+  databaseName?: string
+
+  /**
+   * @default 'entries'
+   */
+  storeName?: string
+
+  /**
+   * IndexedDB implementation, e.g. an in-process one for tests
+   * @default globalThis.indexedDB
+   */
+  indexedDB?: IDBFactory
+}
+
+/**
+ * Synchronous adapter over IndexedDB, usable once `ready()` resolved
+ */
+export interface IndexedDBStorageAdapter extends StorageAdapter {
+  /**
+   * Load every stored value into memory
+   */
+  ready: () => Promise<void>
+
+  /**
+   * Wait until every write so far is persisted
+   * Rejects with the first failed write since the last call
+   */
+  flush: () => Promise<void>
+
+  /**
+   * Persist pending writes and close the database
+   */
+  close: () => Promise<void>
+}
+
+/**
+ * Layout of a file storage directory
+ * - `file-per-key`: one file per key
+ * - `single-json`: every key in one `storage.json` file
+ */
+export type FileStorageMode = 'file-per-key' | 'single-json'
+
+/**
+ * Options for createFileStorageAdapter
+ */
+export interface FileStorageOptions {
+  /**
+   * @default 'file-per-key'
+   */
+  mode?: FileStorageMode
+
+  /**
+   * Longest time (in ms) a write waits for the lock held by another process
+   * @default 5000
+   */
+  lockTimeout?: number
+}
+
+/**
+ * Tier holding the keys matching `match`: a key prefix or a pattern
+ */
+export interface TierRoute {
+  match: string | RegExp
+  /**
+   * Index of the lowest tier storing the matching keys
+   */
+  tier: number
+}
+
+/**
+ * How createTieredAdapter spreads keys over its tiers
+ */
+export interface TieredStoragePolicy {
+  /**
+   * - `through`: writes go to every tier down to the key's lowest tier
+   * - `back`: writes go to the first tier, lower tiers are updated
+   *   once writes pause or on `flush()`
+   * @default 'through'
+   */
+  write?: 'through' | 'back'
+
+  /**
+   * Copy values read from a lower tier into the tiers above it
+   * @default true
+   */
+  promote?: boolean
+
+  /**
+   * Lowest tier of keys, the first matching route wins.
+   * Other keys are stored down to the last tier
+   */
+  routes?: TierRoute[]
+
+  /**
+   * Timing of write-back updates of the lower tiers
+   */
+  writeBack?: WriteBehindOptions
+}
+
+/**
+ * Storage adapter over several tiers, returned by createTieredAdapter
+ */
+export interface TieredStorageAdapter extends StorageAdapter {
+  /**
+   * Apply pending write-back writes to the lower tiers
+   * Throws the first failed write, the key stays pending
+   */
+  flush: () => void
+
+  /**
+   * Apply pending writes and detach the write-back exit hooks
+   */
+  destroy: () => void
+}
+
+/**
+ * Options for createMemoryStoradapt
+ */
+export interface MemoryStoradaptOptions
+  extends StoradaptOptions, MemoryStorageOptions {}
+
+/**
+ * Options for createBrowserStoradapt
+ */
+export interface BrowserStoradaptOptions extends Omit<
+  StoradaptOptions,
+  'sync'
+> {
+  /**
+   * Enable cross-tab synchronization.
+   * `sessionStorage` broadcasts over a BroadcastChannel by default
+   */
+  sync?: boolean | SyncOptions
+
+  /**
+   * Adapter used when the browser storage is missing or rejects writes
+   * (SSR, Safari private mode, sandboxed iframes), instead of throwing.
+   * Cross-tab synchronization is disabled on the fallback
+   */
+  fallback?: 'memory' | StorageAdapter
+}
+
+/**
+ * Converts values to and from the strings kept by a storage adapter
+ */
+export interface Serializer {
+  stringify: (value: any) => string
+  parse: (text: string) => any
+}
+
+/**
+ * Encryption key material
+ * - string: passphrase, stretched with PBKDF2
+ * - Uint8Array: raw secret bytes (e.g. 32 random bytes)
+ * - CryptoKey: AES-GCM key (cannot be combined with `encryptKeys`)
+ */
+export type EncryptionKey = string | Uint8Array | CryptoKey
+
+/**
+ * Options for withEncryption
+ */
+export interface EncryptionOptions {
+  /**
+   * Key used to encrypt new values
+   */
+  key: EncryptionKey
+
+  /**
+   * Older keys still accepted for decryption, see `rotateKeys`
+   */
+  previousKeys?: EncryptionKey[]
+
+  /**
+   * Also hide key names: entries are stored under an HMAC of their name
+   * @default false
+   */
+  encryptKeys?: boolean
+
+  /**
+   * Salt for passphrase stretching
+   * @default 'storadapt'
+   */
+  salt?: string
+}
+
+/**
+ * Asynchronous adapter storing AES-GCM encrypted values
+ */
+export interface EncryptedStorageAdapter extends AsyncStorageAdapter {
+  /**
+   * Re-encrypt every entry that is not encrypted with the current key
+   * @returns Number of re-encrypted entries
+   */
+  rotateKeys: () => Promise<number>
+}
+
+/**
+ * Options for withCompression
+ */
+export interface CompressionOptions {
+  /**
+   * Minimum length (in UTF-16 code units) of a value before it is compressed
+   * @default 1024
+   */
+  threshold?: number
+}
+
+/**
+ * Totals over the values compressed by a withCompression adapter
+ */
+export interface CompressionStats {
+  /**
+   * Number of writes stored compressed
+   */
+  compressedCount: number
+
+  /**
+   * Length of those values before compression
+   */
+  originalSize: number
+
+  /**
+   * Length of those values as stored
+   */
+  compressedSize: number
+
+  /**
+   * `compressedSize / originalSize`, 1 when nothing was compressed
+   */
+  ratio: number
+}
+
+/**
+ * Adapter storing large values compressed
+ */
+export interface CompressedStorageAdapter extends StorageAdapter {
+  /**
+   * Get the compression ratio achieved so far
+   */
+  getCompressionStats: () => CompressionStats
 }
 
 /**
@@ -32,8 +683,251 @@ export interface SetOptions {
    * Defaults to true
    */
   createPath?: boolean
+
+  /**
+   * Time to live in milliseconds, counted from this write.
+   * Applies to the whole storage key, also when writing a deep path
+   */
+  ttl?: number
+
+  /**
+   * Absolute expiration time (timestamp in milliseconds or Date).
+   * Ignored when `ttl` is set
+   */
+  expiresAt?: number | Date
+
+  /**
+   * Eviction priority of the storage key, see `QuotaOptions`.
+   * Lower priorities are evicted first
+   * @default 0
+   */
+  priority?: number
+}
+
+/**
+ * Metadata stored alongside a value
+ */
+export interface EntryMeta {
+  /**
+   * Expiration timestamp in milliseconds
+   */
+  expiresAt?: number
+
+  /**
+   * Schema version of the value, unversioned values are version 0
+   */
+  version?: number
+
+  /**
+   * Eviction priority
+   */
+  priority?: number
+
+  /**
+   * Last write timestamp in milliseconds, stamped when quota eviction
+   * needs it
+   */
+  writtenAt?: number
+}
+
+/**
+ * A stored value unwrapped from its envelope
+ */
+export interface StoredEntry<T = any> {
+  value: T
+  meta: EntryMeta
+}
+
+/**
+ * Event emitted after a storage key has changed
+ */
+export interface ChangeEvent<T = any> {
+  /**
+   * Storage key (root key, without deep path)
+   */
+  key: string
+  /**
+   * Previous value, null when the key did not exist
+   */
+  oldValue: T | null
+  /**
+   * New value, null when the key was removed
+   */
+  newValue: T | null
+  /**
+   * `local` for writes through this instance,
+   * `external` for writes synchronized from another tab
+   */
+  source: ChangeSource
+}
+
+/**
+ * Origin of a change event
+ */
+export type ChangeSource = 'local' | 'external'
+
+/**
+ * Events emitted by Storadapt
+ */
+export type StoradaptEventName = 'change'
+
+/**
+ * Listener for the `change` event
+ */
+export type ChangeListener = (event: ChangeEvent) => void
+
+/**
+ * Callback for `watch`, receiving the values at the watched path
+ */
+export type WatchCallback<T = any> = (
+  newValue: T | null,
+  oldValue: T | null,
+  event: ChangeEvent
+) => void
+
+/**
+ * Removes a previously registered listener
+ */
+export type Unsubscribe = () => void
+
+/**
+ * A key or deep path, as a string: 'user.infos.0.name', 'cfg["api.example.com"]',
+ * or as its segments: ['cfg', 'api.example.com']
+ */
+export type KeyPath = string | readonly (string | number)[]
+
+/**
+ * Maps storage keys to the type of their value, for typed access:
+ * `createStoradapt<{ user: User; theme: 'light' | 'dark' }>(adapter)`
+ */
+export type StoradaptSchema = Record<string, any>
+
+/**
+ * Values that deep paths never go into
+ */
+type PathLeaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | Map<any, any>
+  | Set<any>
+  | ((...args: any[]) => any)
+
+/**
+ * Remaining recursion depth, bounding paths of recursive types
+ */
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8]
+
+/**
+ * Every path into a value: 'name' | 'infos' | 'infos.0' | 'infos.0.name'
+ * Array indexes are any `${number}`
+ */
+export type DeepPath<T, Depth extends number = 8> = [Depth] extends [never]
+  ? never
+  : T extends PathLeaf
+    ? never
+    : T extends readonly any[]
+      ?
+          | `${number}`
+          | `${number}.${DeepPath<NonNullable<T[number]>, PrevDepth[Depth]>}`
+      : {
+          [K in keyof T & (string | number)]-?:
+            | `${K}`
+            | `${K}.${DeepPath<NonNullable<T[K]>, PrevDepth[Depth]>}`
+        }[keyof T & (string | number)]
+
+/**
+ * Type of the value at a path, optional parents are skipped over
+ */
+export type PathValue<
+  T,
+  P extends string
+> = P extends `${infer Head}.${infer Rest}`
+  ? PathValue<SegmentValue<T, Head>, Rest>
+  : SegmentValue<T, P>
+
+type SegmentValue<T, K extends string> = T extends readonly any[]
+  ? K extends keyof T
+    ? T[K]
+    : K extends `${number}`
+      ? T[number]
+      : never
+  : K extends keyof T
+    ? T[K]
+    : never
+
+/**
+ * Whether a schema is the untyped default, allowing any key
+ */
+type IsUntyped<S> = string extends keyof S ? true : false
+
+/**
+ * Keys and deep paths accepted by a Storadapt with schema `S`
+ */
+export type StoradaptPath<S> = IsUntyped<S> extends true ? KeyPath : DeepPath<S>
+
+/**
+ * Type of the value at a key or deep path of schema `S`
+ */
+export type StoradaptValue<S, P extends KeyPath> =
+  IsUntyped<S> extends true ? any : P extends string ? PathValue<S, P> : never
+
+/**
+ * Item type of the array at a key or deep path of schema `S`
+ */
+export type StoradaptItem<S, P extends KeyPath> =
+  IsUntyped<S> extends true
+    ? any
+    : NonNullable<StoradaptValue<S, P>> extends readonly (infer Item)[]
+      ? Item
+      : never
+
+/**
+ * Recursively optional version of a value type, accepted by `merge`
+ */
+export type DeepPartial<T> = T extends PathLeaf
+  ? T
+  : T extends readonly (infer Item)[]
+    ? DeepPartial<Item>[]
+    : { [K in keyof T]?: DeepPartial<T[K]> }
+
+/**
+ * How `merge` combines arrays
+ * - `replace`: the new array replaces the stored one
+ * - `concat`: new items are appended to the stored ones
+ * - `byIndex`: items are merged index by index
+ */
+export type ArrayMergeStrategy = 'replace' | 'concat' | 'byIndex'
+
+/**
+ * Options for merge method
+ */
+export interface MergeOptions {
+  /**
+   * @default 'replace'
+   */
+  arrays?: ArrayMergeStrategy
 }
 
+/**
+ * RFC 6902 JSON Patch operation, paths are RFC 6901 JSON Pointers
+ */
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string }
+
+/**
+ * Key accepted with an explicit value type, which only untyped stores allow
+ */
+export type UntypedKey<S> = IsUntyped<S> extends true ? KeyPath : never
+
 /**
  * Options for setDeep method
  */
@@ -61,6 +955,7 @@ export interface DeepPathInfo {
   storageKey: string
   pathSegments: string[]
   rootValue: any
+  meta: EntryMeta
 }
 
 /**
@@ -1,6 +1,16 @@
-import type { TraversePathOptions } from './types'
+import type {
+  EntryMeta,
+  ArrayMergeStrategy,
+  GetDeepOptions,
+  KeyPath,
+  Serializer,
+  SetDeepOptions,
+  SetOptions,
+  StoredEntry,
+  TraversePathOptions
+} from './types'
 
-import superjson from 'superjson'
+import { isSuperJsonShape, superjsonSerializer } from './serializer'
 
 /**
  * Check if value is a string
@@ -31,8 +41,7 @@ export function isSuperJsonFormat(str: string): boolean {
   if (typeof str !== 'string') return false
 
   try {
-    const parsed = JSON.parse(str)
-    return parsed !== null && typeof parsed === 'object' && 'json' in parsed
+    return isSuperJsonShape(JSON.parse(str))
   } catch {
     return false
   }
@@ -41,18 +50,20 @@ export function isSuperJsonFormat(str: string): boolean {
 /**
  * Serialized values stored in storage
  */
-export function serialize(value: any): string {
-  if (typeof value === 'string') {
-    return value
-  }
-
-  return superjson.stringify(value)
+export function serialize(
+  value: any,
+  serializer: Serializer = superjsonSerializer
+): string {
+  return serializer.stringify(value)
 }
 
 /**
  * Deserialize values from storage
  */
-export function deserialize<T = any>(str: string | null): T | null {
+export function deserialize<T = any>(
+  str: string | null,
+  serializer: Serializer = superjsonSerializer
+): T | null {
   if (str === null) {
     return null
   }
@@ -61,25 +72,283 @@ export function deserialize<T = any>(str: string | null): T | null {
     return str as T
   }
 
-  if (isSuperJsonFormat(str)) {
-    try {
-      return superjson.parse(str) as T
-    } catch {} // The `catch` statement does not perform any processing.
+  return serializer.parse(str) as T
+}
+
+/**
+ * Deep equality for plain data (primitives, arrays, plain objects, dates)
+ */
+export function isEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime()
   }
 
-  try {
-    return JSON.parse(str) as T
-  } catch {
-    return str as T
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]))
+  }
+
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a)
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isEqual(a[key], b[key]))
+    )
   }
+
+  return false
+}
+
+/**
+ * Deep merge `source` into `target` without mutating either
+ * Plain objects are merged recursively, undefined source properties are
+ * skipped and any other value replaces the target
+ */
+export function deepMerge(
+  target: any,
+  source: any,
+  arrays: ArrayMergeStrategy = 'replace'
+): any {
+  if (Array.isArray(target) && Array.isArray(source)) {
+    if (arrays === 'concat') return [...target, ...source]
+    if (arrays === 'byIndex') {
+      const merged = [...target]
+      source.forEach((item, index) => {
+        if (item !== undefined) {
+          merged[index] = deepMerge(target[index], item, arrays)
+        }
+      })
+      return merged
+    }
+    return source
+  }
+
+  if (isObject(target) && isObject(source)) {
+    const merged: Record<string, any> = { ...target }
+    for (const [key, value] of Object.entries(source)) {
+      if (value !== undefined) {
+        merged[key] = deepMerge(target[key], value, arrays)
+      }
+    }
+    return merged
+  }
+
+  return source
+}
+
+/**
+ * Property marking a stored value as wrapped together with its metadata
+ */
+export const ENVELOPE_KEY = '__storadapt__'
+
+/**
+ * Wrap a value into an envelope when it carries metadata.
+ * Objects that happen to own `ENVELOPE_KEY` are always wrapped,
+ * so that unwrapping stays unambiguous
+ */
+export function wrapEntry(value: any, meta?: EntryMeta): any {
+  // Drop unset fields so that they don't force an envelope
+  const definedMeta = Object.fromEntries(
+    Object.entries(meta || {}).filter(([, field]) => field !== undefined)
+  ) as EntryMeta
+
+  const hasMeta = Object.keys(definedMeta).length > 0
+  const needsEscape = isObject(value) && ENVELOPE_KEY in value
+
+  if (!hasMeta && !needsEscape) {
+    return value
+  }
+
+  return { [ENVELOPE_KEY]: definedMeta, value }
 }
 
 /**
- * Parse path string to array
+ * Unwrap a deserialized value into its value and metadata
+ */
+export function unwrapEntry<T = any>(data: any): StoredEntry<T> {
+  if (isObject(data) && isObject(data[ENVELOPE_KEY])) {
+    return { value: data.value, meta: data[ENVELOPE_KEY] }
+  }
+
+  return { value: data, meta: {} }
+}
+
+/**
+ * Copy an entry, so that its value can be handed out or kept
+ * without sharing objects with the caller
+ */
+export function cloneEntry<T = any>(entry: StoredEntry<T>): StoredEntry<T> {
+  return { value: structuredClone(entry.value), meta: { ...entry.meta } }
+}
+
+/**
+ * Check if entry metadata is past its expiration time
+ */
+export function isExpired(meta: EntryMeta, now = Date.now()): boolean {
+  return meta.expiresAt !== undefined && meta.expiresAt <= now
+}
+
+/**
+ * Resolve the expiration timestamp requested by set options
+ */
+export function resolveExpiresAt(
+  options?: SetOptions,
+  now = Date.now()
+): number | undefined {
+  if (options?.ttl !== undefined) {
+    return now + options.ttl
+  }
+
+  if (options?.expiresAt !== undefined) {
+    return options.expiresAt instanceof Date
+      ? options.expiresAt.getTime()
+      : options.expiresAt
+  }
+
+  return undefined
+}
+
+/**
+ * Check if an error reports an exceeded storage quota
+ * Browsers disagree on the name and code of that error
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false
+
+  const { name, code } = error as { name?: unknown; code?: unknown }
+
+  return (
+    name === 'QuotaExceededError' ||
+    // Firefox
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    // Legacy WebKit and node-localstorage
+    name === 'QUOTA_EXCEEDED_ERR' ||
+    code === 22 ||
+    code === 1014
+  )
+}
+
+/**
+ * Characters that need the full path parser
+ */
+const PATH_SYNTAX = /[.[\\]/
+
+/**
+ * Parse a path into its segments
+ * - dots separate segments, empty segments are ignored
+ * - brackets hold indexes or quoted keys: `a["b.c"][0]`
+ * - a backslash escapes the next character: `a\.b` is one segment
+ * - array-form paths are taken literally
+ *
  * @example parsePath('user.infos.0.name') => ['user', 'infos', '0', 'name']
+ * @example parsePath('cfg["api.example.com"][0]') => ['cfg', 'api.example.com', '0']
  */
-export function parsePath(path: string): string[] {
-  return path.split('.').filter(Boolean)
+export function parsePath(path: KeyPath): string[] {
+  if (typeof path !== 'string') {
+    return path.map(String)
+  }
+
+  if (!PATH_SYNTAX.test(path)) {
+    return path ? [path] : []
+  }
+
+  const segments: string[] = []
+  let current = ''
+  let i = 0
+
+  const invalid = (reason: string) =>
+    new Error(`Invalid path "${path}": ${reason}`)
+
+  const flush = () => {
+    if (current) segments.push(current)
+    current = ''
+  }
+
+  while (i < path.length) {
+    const char = path[i]
+
+    if (char === '\\') {
+      if (i + 1 >= path.length) throw invalid('dangling escape')
+      current += path[i + 1]
+      i += 2
+      continue
+    }
+
+    if (char === '.') {
+      flush()
+      i++
+      continue
+    }
+
+    if (char !== '[') {
+      current += char
+      i++
+      continue
+    }
+
+    // Bracket segment
+    flush()
+    i++
+    const quote = path[i]
+
+    if (quote === '"' || quote === "'") {
+      let key = ''
+      i++
+      while (i < path.length && path[i] !== quote) {
+        if (path[i] === '\\') i++
+        key += path[i] ?? ''
+        i++
+      }
+      if (path[i] !== quote || path[i + 1] !== ']') {
+        throw invalid('unclosed bracket')
+      }
+      // Quoted keys may be empty
+      segments.push(key)
+      i += 2
+      continue
+    }
+
+    const end = path.indexOf(']', i)
+    if (end === -1) throw invalid('unclosed bracket')
+    if (end === i) throw invalid('empty brackets')
+
+    segments.push(path.slice(i, end))
+    i = end + 1
+  }
+
+  flush()
+  return segments
+}
+
+/**
+ * Split a key into its storage key and the deep path inside its value
+ * @example splitKey('user.infos.0') => { storageKey: 'user', pathSegments: ['infos', '0'] }
+ */
+export function splitKey(key: KeyPath): {
+  storageKey: string
+  pathSegments: string[]
+} {
+  const [storageKey = '', ...pathSegments] = parsePath(key)
+  return { storageKey, pathSegments }
+}
+
+/**
+ * Format a path for display, quoting segments that need it
+ * @example stringifyPath(['cfg', 'api.example.com']) => 'cfg["api.example.com"]'
+ */
+export function stringifyPath(path: KeyPath): string {
+  if (typeof path === 'string') return path
+
+  return path
+    .map(String)
+    .map((segment, index) => {
+      if (segment && !/[.[\]\\"']/.test(segment)) {
+        return index === 0 ? segment : `.${segment}`
+      }
+      return `["${segment.replace(/["\\]/g, '\\$&')}"]`
+    })
+    .join('')
 }
 
 /**
@@ -192,3 +461,117 @@ export function traversePath(
 
   return current
 }
+
+/**
+ * Get deep path value
+ */
+export function getDeep(
+  obj: any,
+  path: string[],
+  options?: GetDeepOptions
+): any {
+  const { defaultValue } = options || {}
+
+  const hasDefaultValue = defaultValue !== undefined
+
+  try {
+    const result = traversePath(obj, path, {
+      shouldThrowError: () => !hasDefaultValue
+    })
+
+    const emptyResult = result === undefined || result === null
+    if (emptyResult && hasDefaultValue) {
+      return defaultValue
+    }
+
+    return result
+  } catch (error) {
+    if (hasDefaultValue) return defaultValue
+    throw error
+  }
+}
+
+/**
+ * Set (or remove) deep path value in place
+ */
+export function setDeep(
+  obj: any,
+  path: string[],
+  value?: any,
+  options?: SetDeepOptions
+): void {
+  const { remove = false, createPath = false } = options || {}
+
+  // Traverse to parent object
+  const parent = traversePath(obj, path, {
+    stopBeforeLast: true,
+    createPath
+  })
+
+  // Handle last level
+  const lastSegment = path[path.length - 1]
+
+  // Helper function to set or remove value
+  const setOrRemove = (
+    target: Record<string | number, any>,
+    key: string | number
+  ): void => {
+    if (remove && !isArrayIndex(lastSegment)) {
+      delete target[key]
+    } else {
+      target[key] = value
+    }
+  }
+
+  if (isArrayIndex(lastSegment)) {
+    if (!Array.isArray(parent)) {
+      throw new TypeError(`${path.slice(0, -1).join('.')} is not an array`)
+    }
+
+    const lastIndex = Number.parseInt(lastSegment, 10)
+
+    if (lastIndex < 0) {
+      throw new Error(`Array index ${lastIndex} cannot be negative`)
+    }
+
+    if (lastIndex >= parent.length) {
+      if (!createPath) {
+        throw new Error(`Array index ${lastIndex} out of bounds`)
+      }
+      while (parent.length <= lastIndex) {
+        parent.push(undefined)
+      }
+    }
+
+    setOrRemove(parent, lastIndex)
+  } else {
+    if (!isObject(parent)) {
+      throw new Error(`${path.slice(0, -1).join('.')} is not an object`)
+    }
+
+    setOrRemove(parent, lastSegment)
+  }
+}
+
+/**
+ * Check that a root value matches the container type
+ * expected by the first path segment
+ */
+export function matchesRootType(value: any, firstSegment: string): boolean {
+  const expectArray = isArrayIndex(firstSegment)
+
+  if (expectArray) {
+    return Array.isArray(value)
+  } else {
+    return isObject(value)
+  }
+}
+
+/**
+ * Log an error with a consistent format
+ */
+export function errorLogger(msg: string, error: unknown) {
+  console.info('')
+  console.error(`${msg}:\n`, error)
+  console.info('')
+}
@@ -0,0 +1,111 @@
+import type { WriteBehindOptions } from './types'
+
+const DEFAULT_DELAY = 300
+const DEFAULT_MAX_WAIT = 2000
+
+export interface WriteBehindScheduler {
+  /**
+   * Flush once writes pause for `delay`, or after `maxWait` at the latest
+   */
+  schedule: () => void
+  /**
+   * Drop the scheduled flush
+   */
+  cancel: () => void
+  /**
+   * Drop the scheduled flush and detach the exit hooks
+   */
+  destroy: () => void
+}
+
+/**
+ * Flushes to run when the page or the process goes away
+ * Schedulers only register while writes are pending, and share one
+ * `pagehide` and one `beforeExit` listener, so that idle or forgotten
+ * instances hold no listener and can be garbage collected
+ */
+const exitFlushes = new Set<() => void>()
+let exitTargets: { window: Window | null; process: boolean } | null = null
+
+const runExitFlushes = () => {
+  for (const flush of [...exitFlushes]) flush()
+}
+
+function addExitFlush(flush: () => void): void {
+  exitFlushes.add(flush)
+  if (exitTargets) return
+
+  const target =
+    typeof window !== 'undefined' &&
+    typeof window.addEventListener === 'function'
+      ? window
+      : null
+  const hasProcess =
+    typeof process !== 'undefined' && typeof process.on === 'function'
+
+  target?.addEventListener('pagehide', runExitFlushes)
+  if (hasProcess) process.on('beforeExit', runExitFlushes)
+  exitTargets = { window: target, process: hasProcess }
+}
+
+function removeExitFlush(flush: () => void): void {
+  exitFlushes.delete(flush)
+  if (exitFlushes.size > 0 || !exitTargets) return
+
+  exitTargets.window?.removeEventListener('pagehide', runExitFlushes)
+  if (exitTargets.process) process.off('beforeExit', runExitFlushes)
+  exitTargets = null
+}
+
+/**
+ * Debounce flushes of pending writes, and flush them when
+ * the page (`pagehide`) or the Node.js process (`beforeExit`) goes away
+ */
+export const createWriteBehind = (
+  options: WriteBehindOptions,
+  flush: () => void
+): WriteBehindScheduler => {
+  const {
+    delay = DEFAULT_DELAY,
+    maxWait = DEFAULT_MAX_WAIT,
+    flushOnExit = true
+  } = options
+
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let pendingSince: number | null = null
+
+  const cancel = () => {
+    if (timer !== null) clearTimeout(timer)
+    timer = null
+    pendingSince = null
+    removeExitFlush(run)
+  }
+
+  const run = () => {
+    cancel()
+    flush()
+  }
+
+  const schedule = () => {
+    const now = Date.now()
+    pendingSince ??= now
+
+    if (timer !== null) clearTimeout(timer)
+    timer = setTimeout(
+      run,
+      Math.max(0, Math.min(delay, pendingSince + maxWait - now))
+    )
+
+    if (flushOnExit) {
+      addExitFlush(run)
+      // Let Node.js exit while writes are pending, `beforeExit` flushes them
+      if (typeof timer === 'object') timer.unref?.()
+    }
+  }
+
+  return {
+    schedule,
+    cancel,
+    destroy: cancel
+  }
+}
@@ -2,7 +2,12 @@ import type { StorageAdapter } from '../src/types'
 
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
-import { createBrowserStorageAdapter } from '../src/adapter'
+import {
+  createBrowserStorageAdapter,
+  createMemoryStorageAdapter,
+  createNamespacedAdapter,
+  createOverlayAdapter
+} from '../src/adapter'
 
 describe('Adapter', () => {
   describe('createBrowserStorageAdapter', () => {
@@ -121,6 +126,14 @@ describe('Adapter', () => {
 
       expect(mockStorage.key).toHaveBeenCalledWith(0)
     })
+
+    it('should call key on the storage object', () => {
+      const adapter = createBrowserStorageAdapter('localStorage')
+
+      adapter.key(0)
+
+      expect(vi.mocked(mockStorage.key).mock.contexts[0]).toBe(mockStorage)
+    })
   })
 
   describe('Custom Storage Adapter', () => {
@@ -150,4 +163,186 @@ describe('Adapter', () => {
       expect(customAdapter.getItem('test')).toBeNull()
     })
   })
+
+  describe('createMemoryStorageAdapter', () => {
+    it('should behave like Web Storage', () => {
+      const adapter = createMemoryStorageAdapter({ a: '1' })
+
+      adapter.setItem('b', '2')
+      adapter.setItem('a', '3')
+
+      expect(adapter.getItem('a')).toBe('3')
+      expect(adapter.getItem('missing')).toBeNull()
+      expect(adapter.length()).toBe(2)
+      expect(adapter.key(0)).toBe('a')
+      expect(adapter.key(1)).toBe('b')
+      expect(adapter.key(2)).toBeNull()
+      expect(adapter.key(-1)).toBeNull()
+
+      adapter.removeItem('a')
+      expect(adapter.key(0)).toBe('b')
+
+      adapter.clear()
+      expect(adapter.length()).toBe(0)
+    })
+
+    it('should coerce values to strings', () => {
+      const adapter = createMemoryStorageAdapter()
+
+      adapter.setItem('n', 42 as any)
+      adapter.setItem('o', { a: 1 } as any)
+      adapter.setItem('u', undefined as any)
+
+      expect(adapter.getItem('n')).toBe('42')
+      expect(adapter.getItem('o')).toBe('[object Object]')
+      expect(adapter.getItem('u')).toBe('undefined')
+    })
+
+    it('should throw quota errors beyond maxSize', () => {
+      // "k" + 4 characters = 10 bytes
+      const adapter = createMemoryStorageAdapter({}, { maxSize: 20 })
+      adapter.setItem('a', 'xxxx')
+      adapter.setItem('b', 'xxxx')
+
+      expect(() => adapter.setItem('c', 'x')).toThrow(
+        expect.objectContaining({ name: 'QuotaExceededError' })
+      )
+      expect(adapter.getItem('c')).toBeNull()
+
+      // Replacing a value only counts the difference
+      adapter.setItem('a', 'yyyy')
+      adapter.removeItem('b')
+      adapter.setItem('c', 'zzzz')
+      expect(adapter.length()).toBe(2)
+    })
+
+    it('should throw when the initial values exceed maxSize', () => {
+      expect(() =>
+        createMemoryStorageAdapter({ key: 'value' }, { maxSize: 10 })
+      ).toThrow(expect.objectContaining({ name: 'QuotaExceededError' }))
+    })
+
+    it('should not be persistent, nor adapters wrapping it', () => {
+      const adapter = createMemoryStorageAdapter()
+
+      expect(adapter.persistent).toBe(false)
+      expect(createNamespacedAdapter(adapter, 'app').persistent).toBe(false)
+      expect(createOverlayAdapter(adapter).persistent).toBe(false)
+    })
+  })
+
+  describe('createNamespacedAdapter', () => {
+    let store: Map<string, string>
+    let baseAdapter: StorageAdapter
+
+    beforeEach(() => {
+      store = new Map([
+        ['other:a', '1'],
+        ['checkout:cart', '2'],
+        ['global', '3']
+      ])
+      baseAdapter = {
+        getItem: (key) => store.get(key) ?? null,
+        setItem: (key, value) => {
+          store.set(key, value)
+        },
+        removeItem: (key) => {
+          store.delete(key)
+        },
+        clear: vi.fn(() => store.clear()),
+        length: () => store.size,
+        key: (index) => Array.from(store.keys())[index] ?? null
+      }
+    })
+
+    it('should prefix keys for item operations', () => {
+      const adapter = createNamespacedAdapter(baseAdapter, 'checkout')
+
+      expect(adapter.getItem('cart')).toBe('2')
+      adapter.setItem('step', '1')
+      expect(store.get('checkout:step')).toBe('1')
+      adapter.removeItem('cart')
+      expect(store.has('checkout:cart')).toBe(false)
+    })
+
+    it('should only enumerate own keys', () => {
+      const adapter = createNamespacedAdapter(baseAdapter, 'checkout')
+      adapter.setItem('step', '1')
+
+      expect(adapter.length()).toBe(2)
+      expect(adapter.key(0)).toBe('cart')
+      expect(adapter.key(1)).toBe('step')
+      expect(adapter.key(2)).toBeNull()
+    })
+
+    it('should only clear own keys', () => {
+      const adapter = createNamespacedAdapter(baseAdapter, 'checkout')
+
+      adapter.clear()
+
+      expect(baseAdapter.clear).not.toHaveBeenCalled()
+      expect(Array.from(store.keys())).toEqual(['other:a', 'global'])
+    })
+  })
+
+  describe('createOverlayAdapter', () => {
+    let store: Map<string, string>
+    let baseAdapter: StorageAdapter
+
+    beforeEach(() => {
+      store = new Map([
+        ['a', '1'],
+        ['b', '2']
+      ])
+      baseAdapter = {
+        getItem: (key) => store.get(key) ?? null,
+        setItem: vi.fn(),
+        removeItem: vi.fn(),
+        clear: vi.fn(),
+        length: () => store.size,
+        key: (index) => Array.from(store.keys())[index] ?? null
+      }
+    })
+
+    it('should stage writes without touching the adapter', () => {
+      const adapter = createOverlayAdapter(baseAdapter)
+
+      adapter.setItem('a', '10')
+      adapter.setItem('c', '3')
+      adapter.removeItem('b')
+
+      expect(adapter.getItem('a')).toBe('10')
+      expect(adapter.getItem('b')).toBeNull()
+      expect(adapter.getItem('c')).toBe('3')
+      expect(baseAdapter.setItem).not.toHaveBeenCalled()
+      expect(baseAdapter.removeItem).not.toHaveBeenCalled()
+      expect(Array.from(adapter.changes)).toEqual([
+        ['a', '10'],
+        ['c', '3'],
+        ['b', null]
+      ])
+    })
+
+    it('should enumerate the merged view', () => {
+      const adapter = createOverlayAdapter(baseAdapter)
+      adapter.removeItem('a')
+      adapter.setItem('c', '3')
+
+      expect(adapter.length()).toBe(2)
+      expect(adapter.key(0)).toBe('b')
+      expect(adapter.key(1)).toBe('c')
+      expect(adapter.key(2)).toBeNull()
+    })
+
+    it('should stage the removal of every visible key on clear', () => {
+      const adapter = createOverlayAdapter(baseAdapter)
+      adapter.setItem('c', '3')
+
+      adapter.clear()
+
+      expect(adapter.length()).toBe(0)
+      expect(baseAdapter.clear).not.toHaveBeenCalled()
+      expect(Array.from(adapter.changes.values())).toEqual([null, null, null])
+    })
+  })
 })
@@ -0,0 +1,133 @@
+import type { AsyncStorageAdapter } from '../src/types'
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { AsyncStoradapt } from '../src/async-storage'
+
+describe('AsyncStoradapt', () => {
+  let storage: AsyncStoradapt
+  let mockAdapter: AsyncStorageAdapter
+  let store: Map<string, string>
+
+  beforeEach(() => {
+    store = new Map()
+    mockAdapter = {
+      getItem: async (key) => store.get(key) ?? null,
+      setItem: async (key, value) => {
+        store.set(key, value)
+      },
+      removeItem: async (key) => {
+        store.delete(key)
+      },
+      clear: async () => {
+        store.clear()
+      },
+      length: async () => store.size,
+      key: async (index) => Array.from(store.keys())[index] ?? null
+    }
+    storage = new AsyncStoradapt(mockAdapter)
+  })
+
+  describe('Basic Operations', () => {
+    it('should store and retrieve values', async () => {
+      await storage.set('str', 'value')
+      await storage.set('obj', { name: 'test', age: 25 })
+
+      expect(await storage.get('str')).toBe('value')
+      expect(await storage.get('obj')).toEqual({ name: 'test', age: 25 })
+    })
+
+    it('should return default value for non-existent key', async () => {
+      expect(await storage.get('missing')).toBeNull()
+      expect(await storage.get('missing', { defaultValue: 'x' })).toBe('x')
+    })
+
+    it('should remove, check and clear keys', async () => {
+      await storage.set('a', 1)
+      await storage.set('b', 2)
+
+      expect(await storage.has('a')).toBe(true)
+      await storage.remove('a')
+      expect(await storage.has('a')).toBe(false)
+
+      await storage.clear()
+      expect(await storage.length()).toBe(0)
+    })
+
+    it('should return length and key by index', async () => {
+      await storage.set('first', 1)
+      await storage.set('second', 2)
+
+      expect(await storage.length()).toBe(2)
+      expect(await storage.key(0)).toBe('first')
+      expect(await storage.key(5)).toBeNull()
+    })
+  })
+
+  describe('Deep Path Operations', () => {
+    it('should get nested values', async () => {
+      await storage.set('data', { users: [{ name: 'Alice' }, { name: 'Bob' }] })
+
+      expect(await storage.get('data.users.1.name')).toBe('Bob')
+      expect(
+        await storage.get('data.users.5.name', { defaultValue: '-' })
+      ).toBe('-')
+    })
+
+    it('should set nested values and auto-create missing root', async () => {
+      await storage.set('user', { name: 'John' })
+      await storage.set('user.age', 30)
+      await storage.set('config.theme.color', 'dark', { createPath: true })
+
+      expect(await storage.get('user')).toEqual({ name: 'John', age: 30 })
+      expect(await storage.get('config')).toEqual({ theme: { color: 'dark' } })
+    })
+
+    it('should remove nested property', async () => {
+      await storage.set('user', { name: 'John', age: 30 })
+      await storage.remove('user.age')
+
+      expect(await storage.get('user')).toEqual({ name: 'John' })
+    })
+
+    it('should check nested property existence', async () => {
+      await storage.set('user', { profile: { name: 'Alice' } })
+
+      expect(await storage.has('user.profile.name')).toBe(true)
+      expect(await storage.has('user.profile.age')).toBe(false)
+    })
+  })
+
+  describe('Expiration', () => {
+    it('should treat expired keys as missing', async () => {
+      vi.useFakeTimers()
+      await storage.set('token', { id: 1 }, { ttl: 1000 })
+      expect(await storage.get('token.id')).toBe(1)
+
+      vi.advanceTimersByTime(1000)
+      expect(await storage.get('token')).toBeNull()
+      expect(store.has('token')).toBe(false)
+      vi.useRealTimers()
+    })
+  })
+
+  describe('Error Handling', () => {
+    it('should handle rejected adapter calls gracefully', async () => {
+      const fail = async (): Promise<never> => {
+        throw new Error('Storage error')
+      }
+      const faultyStorage = new AsyncStoradapt({
+        getItem: fail,
+        setItem: fail,
+        removeItem: fail,
+        clear: fail,
+        length: fail,
+        key: fail
+      })
+
+      expect(await faultyStorage.get('test')).toBeNull()
+      expect(await faultyStorage.length()).toBe(0)
+      await expect(faultyStorage.set('test', 1)).resolves.toBeUndefined()
+    })
+  })
+})
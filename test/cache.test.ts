@@ -0,0 +1,224 @@
+import type { StorageAdapter } from '../src/types'
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createEntryCache } from '../src/cache'
+import { Storadapt } from '../src/storage'
+import { serialize } from '../src/util'
+
+const entry = (value: any) => ({ value, meta: {} })
+
+describe('Read Cache', () => {
+  describe('createEntryCache', () => {
+    it('should count hits and misses', () => {
+      const cache = createEntryCache()
+
+      expect(cache.get('a')).toBeUndefined()
+      cache.set('a', entry(1), 10)
+      expect(cache.get('a')).toEqual(entry(1))
+
+      expect(cache.stats()).toEqual({
+        hits: 1,
+        misses: 1,
+        evictions: 0,
+        entries: 1,
+        size: 10,
+        hitRate: 0.5
+      })
+    })
+
+    it('should drop least recently read entries beyond maxEntries', () => {
+      const cache = createEntryCache({ maxEntries: 2 })
+      cache.set('a', entry(1), 1)
+      cache.set('b', entry(2), 1)
+      cache.get('a')
+
+      cache.set('c', entry(3), 1)
+
+      expect(cache.get('b')).toBeUndefined()
+      expect(cache.get('a')).toEqual(entry(1))
+      expect(cache.get('c')).toEqual(entry(3))
+      expect(cache.stats().evictions).toBe(1)
+    })
+
+    it('should stay within maxSize', () => {
+      const cache = createEntryCache({ maxSize: 10 })
+      cache.set('a', entry(1), 4)
+      cache.set('b', entry(2), 4)
+      cache.set('c', entry(3), 4)
+      cache.set('huge', entry(4), 11)
+
+      expect(cache.stats()).toMatchObject({ entries: 2, size: 8 })
+      expect(cache.get('a')).toBeUndefined()
+      expect(cache.get('huge')).toBeUndefined()
+    })
+
+    it('should replace entries and update the size', () => {
+      const cache = createEntryCache()
+      cache.set('a', entry(1), 4)
+      cache.set('a', entry(2), 6)
+      cache.delete('missing')
+
+      expect(cache.stats()).toMatchObject({ entries: 1, size: 6 })
+
+      cache.clear()
+      expect(cache.stats()).toMatchObject({ entries: 0, size: 0 })
+    })
+  })
+
+  describe('Storadapt with cache', () => {
+    let store: Map<string, string>
+    let adapter: StorageAdapter
+    let storage: Storadapt
+
+    beforeEach(() => {
+      store = new Map()
+      adapter = {
+        getItem: vi.fn((key: string) => store.get(key) ?? null),
+        setItem: (key, value) => {
+          store.set(key, value)
+        },
+        removeItem: (key) => {
+          store.delete(key)
+        },
+        clear: () => store.clear(),
+        length: () => store.size,
+        key: (index) => Array.from(store.keys())[index] ?? null
+      }
+      storage = new Storadapt(adapter, { cache: true })
+    })
+
+    it('should serve repeated reads from memory', () => {
+      storage.set('user', { profile: { name: 'Alice' } })
+      vi.mocked(adapter.getItem).mockClear()
+
+      expect(storage.get('user.profile.name')).toBe('Alice')
+      expect(storage.get('user.profile.name')).toBe('Alice')
+      expect(storage.has('user')).toBe(true)
+
+      expect(adapter.getItem).toHaveBeenCalledOnce()
+      expect(storage.getCacheStats()).toMatchObject({ hits: 2, misses: 1 })
+    })
+
+    it('should be invalidated by own writes', () => {
+      storage.set('user', { name: 'Alice', tags: [] })
+      storage.get('user')
+
+      storage.set('user.name', 'Bob')
+      expect(storage.get('user.name')).toBe('Bob')
+
+      storage.push('user.tags', 'admin')
+      expect(storage.get('user.tags')).toEqual(['admin'])
+
+      storage.remove('user')
+      expect(storage.get('user')).toBeNull()
+    })
+
+    it('should be invalidated by writes of its namespaces', () => {
+      storage.set('checkout:x', 1)
+      storage.set('checkout:y', 1)
+      storage.get('checkout:x')
+      storage.get('checkout:y')
+      const checkout = storage.namespace('checkout')
+
+      checkout.set('x', 2)
+      expect(storage.get('checkout:x')).toBe(2)
+
+      checkout.remove('x')
+      expect(storage.get('checkout:x')).toBeNull()
+
+      checkout.clear()
+      expect(storage.get('checkout:y')).toBeNull()
+    })
+
+    it('should not mutate values returned by earlier reads', () => {
+      storage.set('user', { name: 'Alice' })
+      const user = storage.get('user')
+
+      storage.set('user.name', 'Bob')
+
+      expect(user).toEqual({ name: 'Alice' })
+      expect(storage.get('user')).toEqual({ name: 'Bob' })
+    })
+
+    it('should not share returned values with the cache', () => {
+      storage.set('user', { name: 'Alice', tags: ['a'] })
+
+      const first = storage.get('user')
+      first.name = 'Mallory'
+      first.tags.push('b')
+      const second = storage.get('user')
+      second.name = 'Eve'
+
+      expect(storage.get('user')).toEqual({ name: 'Alice', tags: ['a'] })
+      expect(storage.getCacheStats()?.hits).toBe(2)
+    })
+
+    it('should only copy the value returned by deep reads', () => {
+      storage.set('user', { profile: { name: 'Alice' }, items: [1, 2, 3] })
+      storage.get('user.profile')
+      const clone = vi.spyOn(globalThis, 'structuredClone')
+
+      const profile = storage.get('user.profile')
+      expect(storage.get('user.profile.name')).toBe('Alice')
+      expect(storage.has('user')).toBe(true)
+
+      expect(clone).toHaveBeenCalledOnce()
+      expect(clone).toHaveBeenCalledWith({ name: 'Alice' })
+      profile.name = 'Mallory'
+      expect(storage.get('user.profile.name')).toBe('Alice')
+      clone.mockRestore()
+    })
+
+    it('should be invalidated by external changes', () => {
+      const listeners = new Set<(event: any) => void>()
+      const synced = new Storadapt(adapter, {
+        cache: true,
+        sync: {
+          target: {
+            addEventListener: (_type, listener) => listeners.add(listener),
+            removeEventListener: (_type, listener) => listeners.delete(listener)
+          }
+        }
+      })
+      synced.set('theme', 'light')
+      synced.get('theme')
+
+      store.set('theme', serialize('dark'))
+      listeners.forEach((listener) =>
+        listener({ key: 'theme', oldValue: null, newValue: 'dark' })
+      )
+
+      expect(synced.get('theme')).toBe('dark')
+      synced.destroy()
+    })
+
+    it('should not return expired cached values', () => {
+      vi.useFakeTimers()
+      storage.set('token', 'abc', { ttl: 1000 })
+      storage.get('token')
+
+      vi.advanceTimersByTime(1001)
+
+      expect(storage.get('token')).toBeNull()
+      expect(store.has('token')).toBe(false)
+      vi.useRealTimers()
+    })
+
+    it('should drop cached values on clear and clearCache', () => {
+      storage.set('a', 1)
+      storage.get('a')
+
+      storage.clearCache()
+      expect(storage.getCacheStats()?.entries).toBe(0)
+
+      storage.get('a')
+      storage.clear()
+      expect(storage.get('a')).toBeNull()
+    })
+
+    it('should report no stats when disabled', () => {
+      expect(new Storadapt(adapter).getCacheStats()).toBeNull()
+    })
+  })
+})
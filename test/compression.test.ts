@@ -0,0 +1,142 @@
+import type { StorageAdapter } from '../src/types'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { createMemoryStorageAdapter } from '../src/adapter'
+import { withCompression } from '../src/compression'
+import { Storadapt } from '../src/storage'
+
+describe('withCompression', () => {
+  let store: Map<string, string>
+  let baseAdapter: StorageAdapter
+
+  beforeEach(() => {
+    store = new Map()
+    baseAdapter = {
+      getItem: (key) => store.get(key) ?? null,
+      setItem: (key, value) => {
+        store.set(key, value)
+      },
+      removeItem: (key) => {
+        store.delete(key)
+      },
+      clear: () => store.clear(),
+      length: () => store.size,
+      key: (index) => Array.from(store.keys())[index] ?? null
+    }
+  })
+
+  it('should compress values above the threshold', () => {
+    const adapter = withCompression(baseAdapter, { threshold: 100 })
+    const value = JSON.stringify(
+      Array.from({ length: 200 }, (_, id) => ({ id, name: `item ${id}` }))
+    )
+
+    adapter.setItem('items', value)
+
+    expect(store.get('items')!.startsWith('lz:')).toBe(true)
+    expect(store.get('items')!.length).toBeLessThan(value.length / 2)
+    expect(adapter.getItem('items')).toBe(value)
+  })
+
+  it('should store small values as-is', () => {
+    const adapter = withCompression(baseAdapter, { threshold: 100 })
+
+    adapter.setItem('short', 'hello')
+
+    expect(store.get('short')).toBe('hello')
+    expect(adapter.getItem('short')).toBe('hello')
+    expect(adapter.getItem('missing')).toBeNull()
+  })
+
+  it('should keep values that would not shrink uncompressed', () => {
+    const adapter = withCompression(baseAdapter, { threshold: 10 })
+    const value = 'abcdefghijklmnopqrstuvwxyz'
+
+    adapter.setItem('a', value)
+
+    expect(store.get('a')).toBe(value)
+  })
+
+  it('should escape plain values that look compressed', () => {
+    const adapter = withCompression(baseAdapter)
+
+    adapter.setItem('a', 'lz:not compressed')
+    adapter.setItem('b', 'lz-raw:not escaped')
+
+    expect(adapter.getItem('a')).toBe('lz:not compressed')
+    expect(adapter.getItem('b')).toBe('lz-raw:not escaped')
+  })
+
+  it('should round-trip arbitrary UTF-16 text', () => {
+    const adapter = withCompression(baseAdapter, { threshold: 0 })
+    const samples = [
+      'a',
+      'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      '日本語のテキスト、日本語のテキスト、日本語のテキスト',
+      '😀 emoji 😀 emoji 😀 emoji \ud83d',
+      Array.from({ length: 5000 }, (_, i) =>
+        String.fromCharCode((i * 7919) % 65536)
+      ).join('')
+    ]
+
+    samples.forEach((sample, i) => {
+      adapter.setItem(`s${i}`, sample)
+      expect(adapter.getItem(`s${i}`)).toBe(sample)
+    })
+  })
+
+  it('should only use UTF-16-safe characters', () => {
+    const adapter = withCompression(baseAdapter, { threshold: 0 })
+
+    adapter.setItem('a', 'x'.repeat(10_000) + 'y'.repeat(10_000))
+
+    const stored = store.get('a')!
+    expect(stored.startsWith('lz:')).toBe(true)
+    for (let i = 0; i < stored.length; i++) {
+      const code = stored.charCodeAt(i)
+      expect(code >= 32 && code < 0xd800).toBe(true)
+    }
+  })
+
+  it('should report the achieved ratio', () => {
+    const adapter = withCompression(baseAdapter, { threshold: 100 })
+    expect(adapter.getCompressionStats()).toEqual({
+      compressedCount: 0,
+      originalSize: 0,
+      compressedSize: 0,
+      ratio: 1
+    })
+
+    const value = 'repeat me '.repeat(100)
+    adapter.setItem('a', value)
+    adapter.setItem('b', 'small')
+
+    const stats = adapter.getCompressionStats()
+    expect(stats.compressedCount).toBe(1)
+    expect(stats.originalSize).toBe(value.length)
+    expect(stats.compressedSize).toBe(store.get('a')!.length)
+    expect(stats.ratio).toBe(stats.compressedSize / stats.originalSize)
+    expect(stats.ratio).toBeLessThan(0.2)
+  })
+
+  it('should work with Storadapt', () => {
+    const storage = new Storadapt(withCompression(baseAdapter))
+    const dataset = {
+      rows: Array.from({ length: 100 }, (_, i) => ({ i, at: new Date(0) }))
+    }
+
+    storage.set('dataset', dataset)
+
+    expect(store.get('dataset')!.startsWith('lz:')).toBe(true)
+    expect(storage.get('dataset')).toEqual(dataset)
+    expect(storage.get('dataset.rows.5.i')).toBe(5)
+  })
+
+  it('should keep the persistence of the wrapped adapter', () => {
+    const memory = createMemoryStorageAdapter()
+
+    expect(new Storadapt(withCompression(memory)).isPersistent).toBe(false)
+    expect(new Storadapt(withCompression(baseAdapter)).isPersistent).toBe(true)
+  })
+})
@@ -0,0 +1,238 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { createCookieStorageAdapter } from '../src/cookie-storage'
+import { Storadapt } from '../src/storage'
+
+/**
+ * Minimal `document.cookie`: reads join live cookies,
+ * writes with `Max-Age=0` delete them
+ */
+const createFakeDocument = () => {
+  const cookies = new Map<string, string>()
+
+  return {
+    cookies,
+    get cookie() {
+      return [...cookies].map(([name, value]) => `${name}=${value}`).join('; ')
+    },
+    set cookie(header: string) {
+      const [pair] = header.split(';')
+      const index = pair.indexOf('=')
+      const name = pair.slice(0, index)
+
+      if (/Max-Age=0(?:;|$)/.test(header)) {
+        cookies.delete(name)
+      } else {
+        cookies.set(name, pair.slice(index + 1))
+      }
+    }
+  }
+}
+
+describe('createCookieStorageAdapter', () => {
+  describe('Server', () => {
+    it('should read cookies from the request header', () => {
+      const adapter = createCookieStorageAdapter({
+        cookieHeader:
+          'storadapt.theme=dark; storadapt.user%20name=Al%20Bo; storadapt.broken=%E0'
+      })
+
+      expect(adapter.getItem('theme')).toBe('dark')
+      expect(adapter.getItem('user name')).toBe('Al Bo')
+      expect(adapter.getItem('broken')).toBe('%E0')
+      expect(adapter.getItem('missing')).toBeNull()
+      expect(adapter.length()).toBe(3)
+      expect(adapter.key(1)).toBe('user name')
+    })
+
+    it('should only list and clear its own cookies', () => {
+      const onSetCookie = vi.fn()
+      const adapter = createCookieStorageAdapter({
+        cookieHeader: 'app.theme=dark; sid=abc; _ga=GA1',
+        onSetCookie,
+        prefix: 'app.'
+      })
+
+      expect(adapter.getItem('theme')).toBe('dark')
+      expect(adapter.getItem('sid')).toBeNull()
+      expect(adapter.length()).toBe(1)
+
+      adapter.clear()
+
+      expect(onSetCookie).toHaveBeenCalledOnce()
+      expect(onSetCookie).toHaveBeenCalledWith(
+        'app.theme=; Path=/; Max-Age=0; SameSite=Lax'
+      )
+    })
+
+    it('should use every cookie with an empty prefix', () => {
+      const adapter = createCookieStorageAdapter({
+        cookieHeader: 'sid=abc; _ga=GA1',
+        prefix: ''
+      })
+
+      expect(adapter.getItem('sid')).toBe('abc')
+      expect(adapter.length()).toBe(2)
+    })
+
+    it('should emit Set-Cookie headers with the cookie attributes', () => {
+      const onSetCookie = vi.fn()
+      const adapter = createCookieStorageAdapter({
+        cookieHeader: '',
+        onSetCookie,
+        path: '/app',
+        domain: 'example.com',
+        sameSite: 'strict',
+        secure: true,
+        maxAge: 3600
+      })
+
+      adapter.setItem('token (v2)', 'a;b=c')
+
+      expect(onSetCookie).toHaveBeenCalledWith(
+        'storadapt.token%20%28v2%29=a%3Bb%3Dc; Path=/app; Domain=example.com; Max-Age=3600; SameSite=Strict; Secure'
+      )
+      expect(adapter.getItem('token (v2)')).toBe('a;b=c')
+    })
+
+    it('should make SameSite=None cookies secure', () => {
+      const onSetCookie = vi.fn()
+      const adapter = createCookieStorageAdapter({
+        onSetCookie,
+        sameSite: 'none'
+      })
+
+      adapter.setItem('a', '1')
+
+      expect(onSetCookie).toHaveBeenCalledWith(
+        'storadapt.a=1; Path=/; SameSite=None; Secure'
+      )
+    })
+
+    it('should expire removed cookies', () => {
+      const onSetCookie = vi.fn()
+      const adapter = createCookieStorageAdapter({
+        cookieHeader: 'storadapt.a=1',
+        onSetCookie
+      })
+
+      adapter.removeItem('a')
+      adapter.removeItem('missing')
+
+      expect(onSetCookie).toHaveBeenCalledOnce()
+      expect(onSetCookie).toHaveBeenCalledWith(
+        'storadapt.a=; Path=/; Max-Age=0; SameSite=Lax'
+      )
+      expect(adapter.getItem('a')).toBeNull()
+    })
+  })
+
+  describe('Chunking', () => {
+    it('should split large values across cookies', () => {
+      const onSetCookie = vi.fn()
+      const adapter = createCookieStorageAdapter({
+        onSetCookie,
+        maxCookieSize: 30
+      })
+      const value = 'x'.repeat(50)
+
+      adapter.setItem('big', value)
+
+      const names = onSetCookie.mock.calls.map(([header]) =>
+        header.slice(0, header.indexOf('='))
+      )
+      expect(names).toEqual([
+        'storadapt.big|1',
+        'storadapt.big|2',
+        'storadapt.big|3',
+        'storadapt.big|4',
+        'storadapt.big'
+      ])
+      onSetCookie.mock.calls.forEach(([header]) => {
+        expect(header.split(';')[0].length).toBeLessThanOrEqual(30)
+      })
+
+      expect(adapter.getItem('big')).toBe(value)
+      expect(adapter.length()).toBe(1)
+      expect(adapter.key(0)).toBe('big')
+    })
+
+    it('should expire left over chunks', () => {
+      const onSetCookie = vi.fn()
+      const adapter = createCookieStorageAdapter({
+        onSetCookie,
+        maxCookieSize: 30
+      })
+      adapter.setItem('big', 'x'.repeat(50))
+      onSetCookie.mockClear()
+
+      adapter.setItem('big', 'small')
+
+      expect(onSetCookie.mock.calls.map(([header]) => header)).toEqual([
+        'storadapt.big=small; Path=/; SameSite=Lax',
+        'storadapt.big|1=; Path=/; Max-Age=0; SameSite=Lax',
+        'storadapt.big|2=; Path=/; Max-Age=0; SameSite=Lax',
+        'storadapt.big|3=; Path=/; Max-Age=0; SameSite=Lax',
+        'storadapt.big|4=; Path=/; Max-Age=0; SameSite=Lax'
+      ])
+    })
+
+    it('should report values with missing chunks as missing', () => {
+      const adapter = createCookieStorageAdapter({
+        cookieHeader: 'storadapt.big=|2; storadapt.big|1=abc'
+      })
+
+      expect(adapter.getItem('big')).toBeNull()
+    })
+  })
+
+  describe('Browser', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('should use document.cookie', () => {
+      const fakeDocument = createFakeDocument()
+      vi.stubGlobal('document', fakeDocument)
+      fakeDocument.cookies.set('sid', 'abc')
+      const adapter = createCookieStorageAdapter({ maxCookieSize: 40 })
+
+      adapter.setItem('a', '1')
+      adapter.setItem('big', 'y'.repeat(40))
+      expect(fakeDocument.cookies.size).toBe(5)
+      expect(adapter.getItem('big')).toBe('y'.repeat(40))
+
+      adapter.clear()
+      expect([...fakeDocument.cookies.keys()]).toEqual(['sid'])
+    })
+
+    it('should throw without document or request cookies', () => {
+      expect(() => createCookieStorageAdapter()).toThrow(
+        'document.cookie is not available'
+      )
+    })
+  })
+
+  it('should back a Storadapt', () => {
+    const headers: string[] = []
+    const storage = new Storadapt(
+      createCookieStorageAdapter({
+        cookieHeader: '',
+        onSetCookie: (header) => headers.push(header)
+      })
+    )
+
+    storage.set('session', { userId: 1, createdAt: new Date(0) })
+
+    const cookieHeader = headers
+      .map((header) => header.split(';')[0])
+      .join('; ')
+    const serverStorage = new Storadapt(
+      createCookieStorageAdapter({ cookieHeader })
+    )
+    expect(serverStorage.get('session')).toEqual({
+      userId: 1,
+      createdAt: new Date(0)
+    })
+  })
+})
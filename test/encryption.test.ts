@@ -0,0 +1,202 @@
+import type { StorageAdapter } from '../src/types'
+
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { AsyncStoradapt } from '../src/async-storage'
+import { withEncryption } from '../src/encryption'
+import { StoradaptDecryptionError } from '../src/errors'
+
+describe('withEncryption', () => {
+  let store: Map<string, string>
+  let baseAdapter: StorageAdapter
+
+  beforeEach(() => {
+    store = new Map()
+    baseAdapter = {
+      getItem: (key) => store.get(key) ?? null,
+      setItem: (key, value) => {
+        store.set(key, value)
+      },
+      removeItem: (key) => {
+        store.delete(key)
+      },
+      clear: () => store.clear(),
+      length: () => store.size,
+      key: (index) => Array.from(store.keys())[index] ?? null
+    }
+  })
+
+  it('should encrypt values before storing them', async () => {
+    const adapter = withEncryption(baseAdapter, { key: 'secret' })
+
+    await adapter.setItem('token', 'abc123')
+
+    expect(store.get('token')).toMatch(/^enc:v1:/)
+    expect(store.get('token')).not.toContain('abc123')
+    expect(await adapter.getItem('token')).toBe('abc123')
+    expect(await adapter.getItem('missing')).toBeNull()
+  })
+
+  it('should use a fresh IV for every write', async () => {
+    const adapter = withEncryption(baseAdapter, { key: 'secret' })
+
+    await adapter.setItem('a', 'same')
+    const first = store.get('a')
+    await adapter.setItem('a', 'same')
+
+    expect(store.get('a')).not.toBe(first)
+  })
+
+  it('should accept raw key bytes and CryptoKey objects', async () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(32))
+    const cryptoKey = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+
+    for (const key of [bytes, cryptoKey]) {
+      const adapter = withEncryption(baseAdapter, { key })
+      await adapter.setItem('value', 'hello')
+      expect(await adapter.getItem('value')).toBe('hello')
+    }
+  })
+
+  it('should throw a clear error with the wrong key', async () => {
+    await withEncryption(baseAdapter, { key: 'right' }).setItem('a', 'value')
+    const adapter = withEncryption(baseAdapter, { key: 'wrong' })
+
+    await expect(adapter.getItem('a')).rejects.toThrow(StoradaptDecryptionError)
+    await expect(adapter.getItem('a')).rejects.toThrow(
+      'Failed to decrypt value for key "a": no matching key'
+    )
+  })
+
+  it('should reject plaintext and tampered values', async () => {
+    const adapter = withEncryption(baseAdapter, { key: 'secret' })
+    store.set('plain', 'hello')
+    await adapter.setItem('a', 'value')
+    store.set('b', store.get('a')!)
+
+    await expect(adapter.getItem('plain')).rejects.toThrow(
+      'value is not encrypted'
+    )
+    // Values are bound to their key name
+    await expect(adapter.getItem('b')).rejects.toThrow('no matching key')
+  })
+
+  it('should hide key names with encryptKeys', async () => {
+    const adapter = withEncryption(baseAdapter, {
+      key: 'secret',
+      encryptKeys: true
+    })
+
+    await adapter.setItem('email', 'alice@example.com')
+
+    const [storageKey] = store.keys()
+    expect(storageKey).toMatch(/^enc:/)
+    expect(storageKey).not.toContain('email')
+    expect(await adapter.getItem('email')).toBe('alice@example.com')
+    expect(await adapter.key(0)).toBe('email')
+    expect(await adapter.length()).toBe(1)
+
+    await adapter.removeItem('email')
+    expect(store.size).toBe(0)
+  })
+
+  it('should refuse CryptoKey objects with encryptKeys', async () => {
+    const cryptoKey = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+
+    expect(() =>
+      withEncryption(baseAdapter, { key: cryptoKey, encryptKeys: true })
+    ).toThrow(TypeError)
+  })
+
+  describe('Key rotation', () => {
+    it('should decrypt values written with a previous key', async () => {
+      await withEncryption(baseAdapter, { key: 'old' }).setItem('a', 'value')
+
+      const adapter = withEncryption(baseAdapter, {
+        key: 'new',
+        previousKeys: ['old']
+      })
+
+      expect(await adapter.getItem('a')).toBe('value')
+    })
+
+    it('should re-encrypt entries with the current key', async () => {
+      const old = withEncryption(baseAdapter, { key: 'old', encryptKeys: true })
+      await old.setItem('a', '1')
+      await old.setItem('b', '2')
+
+      const adapter = withEncryption(baseAdapter, {
+        key: 'new',
+        previousKeys: ['old'],
+        encryptKeys: true
+      })
+      await adapter.setItem('c', '3')
+
+      expect(await adapter.rotateKeys()).toBe(2)
+      expect(await adapter.rotateKeys()).toBe(0)
+      expect(store.size).toBe(3)
+
+      const current = withEncryption(baseAdapter, {
+        key: 'new',
+        encryptKeys: true
+      })
+      expect(await current.getItem('a')).toBe('1')
+      expect(await current.getItem('b')).toBe('2')
+      expect(await current.getItem('c')).toBe('3')
+    })
+
+    it('should skip values it did not encrypt', async () => {
+      await withEncryption(baseAdapter, { key: 'old' }).setItem('a', '1')
+      store.set('foreign', 'plain text')
+
+      const adapter = withEncryption(baseAdapter, {
+        key: 'new',
+        previousKeys: ['old']
+      })
+
+      expect(await adapter.rotateKeys()).toBe(1)
+      expect(store.get('foreign')).toBe('plain text')
+      expect(await adapter.getItem('a')).toBe('1')
+    })
+
+    it('should keep values whose re-encryption fails', async () => {
+      await withEncryption(baseAdapter, { key: 'old' }).setItem('a', '1')
+      const failing = {
+        ...baseAdapter,
+        setItem: () => {
+          throw new Error('write failed')
+        }
+      }
+
+      const adapter = withEncryption(failing, {
+        key: 'new',
+        previousKeys: ['old']
+      })
+
+      await expect(adapter.rotateKeys()).rejects.toThrow('write failed')
+      expect(await adapter.getItem('a')).toBe('1')
+    })
+  })
+
+  it('should work with AsyncStoradapt', async () => {
+    const storage = new AsyncStoradapt(
+      withEncryption(baseAdapter, { key: 'secret' })
+    )
+
+    await storage.set('user', { name: 'Alice', tokens: ['x'] })
+    expect(await storage.get('user.tokens.0')).toBe('x')
+
+    const wrongKey = new AsyncStoradapt(
+      withEncryption(baseAdapter, { key: 'wrong' })
+    )
+    await expect(wrongKey.get('user')).rejects.toThrow(StoradaptDecryptionError)
+  })
+})
@@ -0,0 +1,174 @@
+import type { FileStorageMode } from '../src/types'
+
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import { createFileStorageAdapter } from '../src/file-storage'
+import { Storadapt } from '../src/storage'
+
+describe('createFileStorageAdapter', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'storadapt-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe.each<FileStorageMode>(['file-per-key', 'single-json'])(
+    '%s mode',
+    (mode) => {
+      it('should implement StorageAdapter', () => {
+        const adapter = createFileStorageAdapter(dir, { mode })
+
+        adapter.setItem('b', '2')
+        adapter.setItem('a', '1')
+        adapter.setItem('b', '3')
+
+        expect(adapter.getItem('b')).toBe('3')
+        expect(adapter.getItem('missing')).toBeNull()
+        expect(adapter.length()).toBe(2)
+        expect(adapter.key(0)).toBe('a')
+        expect(adapter.key(1)).toBe('b')
+        expect(adapter.key(2)).toBeNull()
+
+        adapter.removeItem('a')
+        adapter.removeItem('missing')
+        expect(adapter.length()).toBe(1)
+
+        adapter.clear()
+        expect(adapter.length()).toBe(0)
+      })
+
+      it('should share values between instances', () => {
+        const first = createFileStorageAdapter(dir, { mode })
+        const second = createFileStorageAdapter(dir, { mode })
+
+        first.setItem('a', '1')
+        expect(second.getItem('a')).toBe('1')
+
+        second.setItem('a', '2')
+        expect(first.getItem('a')).toBe('2')
+      })
+
+      it('should leave no temporary or lock files behind', () => {
+        const adapter = createFileStorageAdapter(dir, { mode })
+
+        adapter.setItem('a', '1')
+        adapter.removeItem('a')
+        adapter.setItem('b', '2')
+
+        expect(readdirSync(dir).filter((name) => name.startsWith('.'))).toEqual(
+          []
+        )
+      })
+
+      it('should back a Storadapt', () => {
+        const storage = new Storadapt(createFileStorageAdapter(dir, { mode }))
+
+        storage.set('user', { name: 'Alice', tags: ['admin'] })
+        storage.set('user.name', 'Bob')
+
+        expect(
+          new Storadapt(createFileStorageAdapter(dir, { mode })).get('user')
+        ).toEqual({ name: 'Bob', tags: ['admin'] })
+      })
+    }
+  )
+
+  describe('file-per-key mode', () => {
+    it('should map keys to safe file names', () => {
+      const adapter = createFileStorageAdapter(dir)
+      const keys = ['../etc/passwd', 'User', 'user', 'con', 'a b', '日本', '']
+
+      keys.forEach((key, index) => adapter.setItem(key, String(index)))
+
+      expect(readdirSync(dir).sort()).toEqual(
+        [
+          '%2E%2E%2Fetc%2Fpasswd',
+          '%55ser',
+          'user',
+          '%63on',
+          'a%20b',
+          '%E6%97%A5%E6%9C%AC',
+          '%'
+        ].sort()
+      )
+      keys.forEach((key, index) => {
+        expect(adapter.getItem(key)).toBe(String(index))
+      })
+      expect(
+        Array.from({ length: keys.length }, (_, i) => adapter.key(i))
+      ).toEqual([...keys].sort())
+    })
+
+    it('should reject keys too long for a file name', () => {
+      const adapter = createFileStorageAdapter(dir)
+
+      expect(() => adapter.setItem('日'.repeat(100), 'x')).toThrow(RangeError)
+    })
+  })
+
+  describe('single-json mode', () => {
+    it('should store every key in one sorted file', () => {
+      const adapter = createFileStorageAdapter(dir, { mode: 'single-json' })
+
+      adapter.setItem('b', '2')
+      adapter.setItem('10', 'x')
+      adapter.setItem('a', '1')
+
+      expect(readdirSync(dir)).toEqual(['storage.json'])
+      expect(readFileSync(join(dir, 'storage.json'), 'utf-8')).toBe(
+        '{"10":"x","a":"1","b":"2"}'
+      )
+    })
+  })
+
+  describe('Locking', () => {
+    it('should time out while another process holds the lock', () => {
+      const adapter = createFileStorageAdapter(dir, { lockTimeout: 50 })
+      writeFileSync(join(dir, '.lock'), '')
+
+      expect(() => adapter.setItem('a', '1')).toThrow(/Timed out/)
+      expect(adapter.getItem('a')).toBeNull()
+    })
+
+    it('should take over stale locks', () => {
+      const adapter = createFileStorageAdapter(dir, { lockTimeout: 50 })
+      const lockPath = join(dir, '.lock')
+      writeFileSync(lockPath, '')
+      const longAgo = new Date(Date.now() - 60_000)
+      utimesSync(lockPath, longAgo, longAgo)
+
+      adapter.setItem('a', '1')
+
+      expect(adapter.getItem('a')).toBe('1')
+      expect(readdirSync(dir)).toEqual(['a'])
+    })
+
+    it('should take over stale locks before the default timeout', () => {
+      const adapter = createFileStorageAdapter(dir)
+      const lockPath = join(dir, '.lock')
+      writeFileSync(lockPath, '')
+      const beforeTimeout = new Date(Date.now() - 4000)
+      utimesSync(lockPath, beforeTimeout, beforeTimeout)
+
+      const start = Date.now()
+      adapter.setItem('a', '1')
+
+      expect(Date.now() - start).toBeLessThan(1000)
+      expect(readdirSync(dir)).toEqual(['a'])
+    })
+  })
+})
@@ -3,9 +3,14 @@ import type { StorageAdapter } from '../src/types'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import {
+  AsyncStoradapt,
+  createAsyncStoradapt,
   createBrowserStoradapt,
+  createMemoryStoradapt,
+  createMemoryStorageAdapter,
   createStoradapt,
-  Storadapt
+  Storadapt,
+  StorageQuotaError
 } from '../src/index'
 
 describe('Index Exports', () => {
@@ -22,6 +27,35 @@ describe('Index Exports', () => {
       expect(Storadapt).toBeDefined()
       expect(typeof Storadapt).toBe('function')
     })
+
+    it('should export createAsyncStoradapt function', () => {
+      expect(typeof createAsyncStoradapt).toBe('function')
+    })
+  })
+
+  describe('createAsyncStoradapt', () => {
+    it('should create AsyncStoradapt from adapter or factory', async () => {
+      const store = new Map<string, string>()
+      const adapter = {
+        getItem: async (key: string) => store.get(key) ?? null,
+        setItem: async (key: string, value: string) => {
+          store.set(key, value)
+        },
+        removeItem: async (key: string) => {
+          store.delete(key)
+        },
+        clear: async () => store.clear(),
+        length: async () => store.size,
+        key: async (index: number) => Array.from(store.keys())[index] ?? null
+      }
+
+      const storage = createAsyncStoradapt(adapter)
+      expect(storage).toBeInstanceOf(AsyncStoradapt)
+      expect(createAsyncStoradapt(() => adapter)).toBeInstanceOf(AsyncStoradapt)
+
+      await storage.set('user', { name: 'Alice' })
+      expect(await storage.get('user.name')).toBe('Alice')
+    })
   })
 
   describe('createStoradapt', () => {
@@ -195,6 +229,133 @@ describe('Index Exports', () => {
 
       expect(() => createBrowserStoradapt('localStorage')).toThrow()
     })
+
+    describe('fallback', () => {
+      const quotaError = () =>
+        new DOMException('Quota exceeded', 'QuotaExceededError')
+
+      it('should use writable browser storage', () => {
+        const storage = createBrowserStoradapt('localStorage', {
+          fallback: 'memory'
+        })
+
+        storage.set('test', 'value')
+        expect(store).toEqual({ test: expect.any(String) })
+        expect(storage.isPersistent).toBe(true)
+      })
+
+      it('should fall back to memory when window is undefined', () => {
+        // @ts-expect-error - Testing undefined window
+        global.window = undefined
+
+        const storage = createBrowserStoradapt('localStorage', {
+          fallback: 'memory'
+        })
+
+        storage.set('test', 'value')
+        expect(storage.get('test')).toBe('value')
+        expect(storage.isPersistent).toBe(false)
+      })
+
+      it('should fall back when storage access throws', () => {
+        Object.defineProperty(global, 'window', {
+          value: {
+            get localStorage(): Storage {
+              throw new DOMException('Access denied', 'SecurityError')
+            }
+          },
+          writable: true,
+          configurable: true
+        })
+
+        const storage = createBrowserStoradapt('localStorage', {
+          fallback: 'memory'
+        })
+
+        expect(storage.isPersistent).toBe(false)
+      })
+
+      it('should fall back when storage rejects every write', () => {
+        vi.mocked(mockStorage.setItem).mockImplementation(() => {
+          throw quotaError()
+        })
+
+        const storage = createBrowserStoradapt('localStorage', {
+          fallback: 'memory'
+        })
+
+        storage.set('test', 'value')
+        expect(storage.get('test')).toBe('value')
+        expect(storage.isPersistent).toBe(false)
+      })
+
+      it('should keep full storage holding values', () => {
+        store.existing = 'value'
+        Object.defineProperty(mockStorage, 'length', { value: 1 })
+        vi.mocked(mockStorage.setItem).mockImplementation(() => {
+          throw quotaError()
+        })
+
+        const storage = createBrowserStoradapt('localStorage', {
+          fallback: 'memory'
+        })
+
+        expect(storage.isPersistent).toBe(true)
+        expect(storage.get('existing')).toBe('value')
+      })
+
+      it('should use a custom fallback adapter', () => {
+        // @ts-expect-error - Testing undefined window
+        global.window = undefined
+        const fallback = createMemoryStorageAdapter()
+
+        const storage = createBrowserStoradapt('localStorage', {
+          fallback,
+          sync: true
+        })
+
+        storage.set('test', 'value')
+        expect(fallback.getItem('test')).not.toBeNull()
+      })
+
+      it('should report the persistence declared by custom fallbacks', () => {
+        // @ts-expect-error - Testing undefined window
+        global.window = undefined
+        const fallback = {
+          ...createMemoryStorageAdapter(),
+          persistent: undefined
+        }
+
+        expect(
+          createBrowserStoradapt('localStorage', { fallback }).isPersistent
+        ).toBe(true)
+        expect(
+          createBrowserStoradapt('localStorage', {
+            fallback: { ...fallback, persistent: false }
+          }).isPersistent
+        ).toBe(false)
+      })
+    })
+  })
+
+  describe('createMemoryStoradapt', () => {
+    it('should create a Storadapt over memory storage', () => {
+      const storage = createMemoryStoradapt({ theme: 'dark' })
+
+      expect(storage).toBeInstanceOf(Storadapt)
+      expect(storage.get('theme')).toBe('dark')
+
+      storage.set('user', { name: 'Alice' })
+      expect(storage.get('user.name')).toBe('Alice')
+    })
+
+    it('should pass maxSize to the adapter', () => {
+      const storage = createMemoryStoradapt({}, { maxSize: 100 })
+
+      expect(() => storage.set('big', 'x'.repeat(100))).toThrow(
+        StorageQuotaError
+      )
+    })
   })
 
   describe('Storadapt Direct Usage', () => {
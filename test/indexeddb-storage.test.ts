@@ -0,0 +1,265 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createIndexedDBStorageAdapter } from '../src/indexeddb-storage'
+import { Storadapt } from '../src/storage'
+
+type Listener = (() => void) | null
+
+interface FakeRequest {
+  result: any
+  error: unknown
+  onsuccess: Listener
+  onerror: Listener
+  onupgradeneeded: Listener
+}
+
+/**
+ * In-process IndexedDB with the subset used by the adapter
+ * Databases outlive connections; requests and transactions settle
+ * asynchronously, in order
+ */
+const createFakeIndexedDB = () => {
+  const databases = new Map<
+    string,
+    { version: number; stores: Map<string, Map<string, unknown>> }
+  >()
+  const later = (callback: () => void) => setTimeout(callback, 0)
+  const control = { failWrites: false, transactions: 0 }
+
+  const createRequest = (): FakeRequest => ({
+    result: undefined,
+    error: null,
+    onsuccess: null,
+    onerror: null,
+    onupgradeneeded: null
+  })
+
+  const connect = (data: {
+    version: number
+    stores: Map<string, Map<string, unknown>>
+  }) => ({
+    get version() {
+      return data.version
+    },
+    objectStoreNames: { contains: (name: string) => data.stores.has(name) },
+    createObjectStore: (name: string) => {
+      data.stores.set(name, new Map())
+    },
+    close: () => {},
+    onversionchange: null as Listener,
+    transaction: (storeName: string, mode: IDBTransactionMode) => {
+      const store = data.stores.get(storeName)!
+      // Writes apply to a copy committed on completion
+      const staged = new Map(store)
+      let pending = 0
+      let failed = false
+      control.transactions++
+
+      const transaction = {
+        error: null as unknown,
+        oncomplete: null as Listener,
+        onerror: null as Listener,
+        onabort: null as Listener,
+        objectStore: () => objectStore
+      }
+
+      const settle = () => {
+        if (pending > 0) return
+        if (failed) {
+          transaction.onabort?.()
+        } else {
+          store.clear()
+          staged.forEach((value, key) => store.set(key, value))
+          transaction.oncomplete?.()
+        }
+      }
+
+      const run = (operation: () => unknown, write = false) => {
+        const request = createRequest()
+        pending++
+        later(() => {
+          pending--
+          if (write && control.failWrites) {
+            failed = true
+            transaction.error = new DOMException('Full', 'QuotaExceededError')
+          } else {
+            request.result = operation()
+            request.onsuccess?.()
+          }
+          later(settle)
+        })
+        return request
+      }
+
+      const sortedKeys = () => [...staged.keys()].sort()
+      const objectStore = {
+        getAllKeys: () => run(sortedKeys),
+        getAll: () => run(() => sortedKeys().map((key) => staged.get(key))),
+        put: (value: unknown, key: string) =>
+          run(() => staged.set(key, value), mode === 'readwrite'),
+        delete: (key: string) => run(() => staged.delete(key), true),
+        clear: () => run(() => staged.clear(), true)
+      }
+
+      return transaction
+    }
+  })
+
+  const factory = {
+    open: (name: string, version?: number) => {
+      const request = createRequest()
+
+      later(() => {
+        let data = databases.get(name)
+        const upgrade =
+          !data || (version !== undefined && version > data.version)
+
+        if (!data) {
+          data = { version: 0, stores: new Map() }
+          databases.set(name, data)
+        }
+        request.result = connect(data)
+
+        if (upgrade) {
+          data.version = version ?? 1
+          request.onupgradeneeded?.()
+        }
+        request.onsuccess?.()
+      })
+
+      return request
+    }
+  }
+
+  return {
+    databases,
+    control,
+    indexedDB: factory as unknown as IDBFactory
+  }
+}
+
+describe('createIndexedDBStorageAdapter', () => {
+  let fake: ReturnType<typeof createFakeIndexedDB>
+
+  beforeEach(() => {
+    fake = createFakeIndexedDB()
+  })
+
+  const createAdapter = () =>
+    createIndexedDBStorageAdapter({ indexedDB: fake.indexedDB })
+
+  it('should throw when used before ready', () => {
+    const adapter = createAdapter()
+
+    expect(() => adapter.getItem('a')).toThrow('await ready() first')
+  })
+
+  it('should serve writes synchronously and persist them', async () => {
+    const adapter = createAdapter()
+    await adapter.ready()
+
+    adapter.setItem('b', '2')
+    adapter.setItem('a', '1')
+    adapter.removeItem('b')
+
+    expect(adapter.getItem('a')).toBe('1')
+    expect(adapter.getItem('b')).toBeNull()
+    expect(adapter.length()).toBe(1)
+
+    await adapter.flush()
+
+    const reopened = createAdapter()
+    await reopened.ready()
+    expect(reopened.getItem('a')).toBe('1')
+    expect(reopened.key(0)).toBe('a')
+    expect(reopened.length()).toBe(1)
+  })
+
+  it('should persist synchronous writes in one ordered batch', async () => {
+    const adapter = createAdapter()
+    await adapter.ready()
+    const before = fake.control.transactions
+
+    adapter.setItem('a', '1')
+    adapter.clear()
+    adapter.setItem('a', '2')
+    adapter.setItem('b', '3')
+    await adapter.flush()
+
+    expect(fake.control.transactions - before).toBe(1)
+    expect([
+      ...fake.databases.get('storadapt')!.stores.get('entries')!
+    ]).toEqual([
+      ['a', '2'],
+      ['b', '3']
+    ])
+  })
+
+  it('should keep batches in order', async () => {
+    const adapter = createAdapter()
+    await adapter.ready()
+
+    adapter.setItem('a', '1')
+    await Promise.resolve()
+    adapter.setItem('a', '2')
+    await adapter.flush()
+
+    const reopened = createAdapter()
+    await reopened.ready()
+    expect(reopened.getItem('a')).toBe('2')
+  })
+
+  it('should report failed writes from flush', async () => {
+    const adapter = createAdapter()
+    await adapter.ready()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    fake.control.failWrites = true
+
+    adapter.setItem('a', '1')
+
+    await expect(adapter.flush()).rejects.toMatchObject({
+      name: 'QuotaExceededError'
+    })
+    await expect(adapter.flush()).resolves.toBeUndefined()
+    vi.restoreAllMocks()
+  })
+
+  it('should add its store to an existing database', async () => {
+    fake.databases.set('storadapt', { version: 3, stores: new Map() })
+
+    const adapter = createAdapter()
+    await adapter.ready()
+
+    expect(fake.databases.get('storadapt')!.version).toBe(4)
+    expect(fake.databases.get('storadapt')!.stores.has('entries')).toBe(true)
+  })
+
+  it('should persist pending writes on close', async () => {
+    const adapter = createAdapter()
+    await adapter.ready()
+
+    adapter.setItem('a', '1')
+    await adapter.close()
+
+    expect(() => adapter.getItem('a')).toThrow()
+    await adapter.ready()
+    expect(adapter.getItem('a')).toBe('1')
+  })
+
+  it('should back a Storadapt', async () => {
+    const adapter = createAdapter()
+    await adapter.ready()
+    const storage = new Storadapt(adapter)
+
+    storage.set('user', { name: 'Alice', joined: new Date(0) })
+    storage.set('user.name', 'Bob')
+    await adapter.flush()
+
+    const reopened = createAdapter()
+    await reopened.ready()
+    expect(new Storadapt(reopened).get('user')).toEqual({
+      name: 'Bob',
+      joined: new Date(0)
+    })
+  })
+})
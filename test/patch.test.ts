@@ -0,0 +1,229 @@
+import type { JsonPatchOperation } from '../src/types'
+
+import { describe, expect, it } from 'vitest'
+
+import { StoradaptPatchError } from '../src/errors'
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  createJsonPatch,
+  parseJsonPointer,
+  toJsonPointer
+} from '../src/patch'
+
+describe('Patch', () => {
+  describe('JSON Pointer', () => {
+    it('should parse and escape pointers', () => {
+      expect(parseJsonPointer('')).toEqual([])
+      expect(parseJsonPointer('/a/0/b~1c/d~0e')).toEqual([
+        'a',
+        '0',
+        'b/c',
+        'd~e'
+      ])
+      expect(toJsonPointer(['a', 'b/c', 'd~e'])).toBe('/a/b~1c/d~0e')
+      expect(() => parseJsonPointer('a/b')).toThrow('Invalid JSON Pointer')
+    })
+  })
+
+  describe('applyJsonPatch', () => {
+    it('should add object members and array elements', () => {
+      expect(
+        applyJsonPatch({ foo: ['bar', 'baz'] }, [
+          { op: 'add', path: '/foo/1', value: 'qux' },
+          { op: 'add', path: '/foo/-', value: 'end' },
+          { op: 'add', path: '/child', value: { grand: 'child' } }
+        ])
+      ).toEqual({
+        foo: ['bar', 'qux', 'baz', 'end'],
+        child: { grand: 'child' }
+      })
+    })
+
+    it('should remove and replace values', () => {
+      expect(
+        applyJsonPatch({ baz: 'qux', foo: 'bar', list: [1, 2, 3] }, [
+          { op: 'remove', path: '/foo' },
+          { op: 'remove', path: '/list/1' },
+          { op: 'replace', path: '/baz', value: 'boo' }
+        ])
+      ).toEqual({ baz: 'boo', list: [1, 3] })
+    })
+
+    it('should move and copy values', () => {
+      expect(
+        applyJsonPatch({ foo: { bar: 'baz', waldo: 'fred' }, qux: {} }, [
+          { op: 'move', from: '/foo/waldo', path: '/qux/thud' },
+          { op: 'copy', from: '/qux', path: '/copy' }
+        ])
+      ).toEqual({
+        foo: { bar: 'baz' },
+        qux: { thud: 'fred' },
+        copy: { thud: 'fred' }
+      })
+
+      expect(
+        applyJsonPatch({ list: ['a', 'b', 'c', 'd'] }, [
+          { op: 'move', from: '/list/1', path: '/list/3' }
+        ])
+      ).toEqual({ list: ['a', 'c', 'd', 'b'] })
+    })
+
+    it('should replace the root value', () => {
+      expect(
+        applyJsonPatch({ a: 1 }, [{ op: 'replace', path: '', value: [1] }])
+      ).toEqual([1])
+    })
+
+    it('should be atomic and leave the input untouched', () => {
+      const document = { a: { b: 1 } }
+      const operations: JsonPatchOperation[] = [
+        { op: 'replace', path: '/a/b', value: 2 },
+        { op: 'test', path: '/a/b', value: 3 }
+      ]
+
+      expect(() => applyJsonPatch(document, operations)).toThrow(
+        StoradaptPatchError
+      )
+      expect(document).toEqual({ a: { b: 1 } })
+    })
+
+    it('should report the failing operation', () => {
+      try {
+        applyJsonPatch({ list: [] }, [
+          { op: 'test', path: '/list', value: [] },
+          { op: 'remove', path: '/missing' }
+        ])
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(StoradaptPatchError)
+        expect((error as StoradaptPatchError).index).toBe(1)
+        expect((error as Error).message).toBe(
+          'JSON Patch operation 1 (remove "/missing") failed: /missing does not exist'
+        )
+      }
+    })
+
+    it('should reject invalid operations', () => {
+      const invalid: JsonPatchOperation[][] = [
+        [{ op: 'add', path: '/list/5', value: 1 }],
+        [{ op: 'add', path: '/list/01', value: 1 }],
+        [{ op: 'replace', path: '/missing', value: 1 }],
+        [{ op: 'move', from: '/obj', path: '/obj/child' }],
+        [{ op: 'remove', path: '' }],
+        [{ op: 'add', path: '/missing/child', value: 1 }]
+      ]
+
+      for (const operations of invalid) {
+        expect(() => applyJsonPatch({ list: [], obj: {} }, operations)).toThrow(
+          StoradaptPatchError
+        )
+      }
+    })
+
+    it('should not reach the object prototype', () => {
+      const unsafe: JsonPatchOperation[][] = [
+        [{ op: 'add', path: '/__proto__/polluted', value: 'yes' }],
+        [{ op: 'add', path: '/constructor/prototype/polluted', value: 'yes' }],
+        [{ op: 'add', path: '/obj/__proto__', value: { polluted: 'yes' } }],
+        [{ op: 'copy', from: '/toString', path: '/copy' }]
+      ]
+
+      for (const operations of unsafe) {
+        expect(() => applyJsonPatch({ obj: {} }, operations)).toThrow(
+          StoradaptPatchError
+        )
+      }
+      expect(({} as any).polluted).toBeUndefined()
+    })
+
+    it('should read numeric segments by container type', () => {
+      expect(
+        applyJsonPatch({ '0': { x: 1 }, list: [{ x: 1 }] }, [
+          { op: 'replace', path: '/0/x', value: 2 },
+          { op: 'replace', path: '/list/0/x', value: 3 }
+        ])
+      ).toEqual({ '0': { x: 2 }, list: [{ x: 3 }] })
+
+      expect(() =>
+        applyJsonPatch({ list: [{ x: 1 }] }, [
+          { op: 'replace', path: '/list/x/x', value: 2 }
+        ])
+      ).toThrow(StoradaptPatchError)
+    })
+  })
+
+  describe('createJsonPatch', () => {
+    it('should produce a patch turning the old value into the new one', () => {
+      const oldValue = {
+        name: 'Alice',
+        removed: true,
+        tags: ['a', 'b', 'c'],
+        nested: { deep: { value: 1 } }
+      }
+      const newValue = {
+        name: 'Bob',
+        tags: ['a', 'x'],
+        nested: { deep: { value: 2 } },
+        'key/with~chars': 1
+      }
+
+      const patch = createJsonPatch(oldValue, newValue)
+
+      expect(patch).toEqual([
+        { op: 'remove', path: '/removed' },
+        { op: 'replace', path: '/name', value: 'Bob' },
+        { op: 'replace', path: '/tags/1', value: 'x' },
+        { op: 'remove', path: '/tags/2' },
+        { op: 'replace', path: '/nested/deep/value', value: 2 },
+        { op: 'add', path: '/key~1with~0chars', value: 1 }
+      ])
+      expect(applyJsonPatch(oldValue, patch)).toEqual(newValue)
+    })
+
+    it('should replace values of different types', () => {
+      expect(createJsonPatch({ a: 1 }, { a: 1 })).toEqual([])
+      expect(createJsonPatch(null, { a: 1 })).toEqual([
+        { op: 'replace', path: '', value: { a: 1 } }
+      ])
+      expect(createJsonPatch([1], { a: 1 })).toEqual([
+        { op: 'replace', path: '', value: { a: 1 } }
+      ])
+    })
+  })
+
+  describe('applyMergePatch', () => {
+    it('should follow RFC 7386', () => {
+      const target = {
+        title: 'Goodbye!',
+        author: { givenName: 'John', familyName: 'Doe' },
+        tags: ['example', 'sample'],
+        content: 'This will be unchanged'
+      }
+
+      expect(
+        applyMergePatch(target, {
+          title: 'Hello!',
+          phoneNumber: '+01-123-456-7890',
+          author: { familyName: null },
+          tags: ['example']
+        })
+      ).toEqual({
+        title: 'Hello!',
+        author: { givenName: 'John' },
+        tags: ['example'],
+        content: 'This will be unchanged',
+        phoneNumber: '+01-123-456-7890'
+      })
+      expect(target.author.familyName).toBe('Doe')
+    })
+
+    it('should replace non-object targets and patches', () => {
+      expect(applyMergePatch('text', { a: 1 })).toEqual({ a: 1 })
+      expect(applyMergePatch({ a: 1 }, ['x'])).toEqual(['x'])
+      expect(applyMergePatch({ a: { b: 1 } }, { a: { b: null } })).toEqual({
+        a: {}
+      })
+    })
+  })
+})
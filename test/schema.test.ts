@@ -0,0 +1,77 @@
+import type { StandardSchemaV1 } from '../src/types'
+
+import { describe, expect, it } from 'vitest'
+
+import { isStandardSchema, runSchema, toSchemaDefinition } from '../src/schema'
+
+const numberSchema: StandardSchemaV1<unknown, number> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) =>
+      typeof value === 'number'
+        ? { value }
+        : { issues: [{ message: 'Expected number' }] }
+  }
+}
+
+describe('Schema', () => {
+  describe('isStandardSchema', () => {
+    it('should detect Standard Schema validators', () => {
+      expect(isStandardSchema(numberSchema)).toBe(true)
+      expect(isStandardSchema((value: unknown) => value)).toBe(false)
+      expect(isStandardSchema(null)).toBe(false)
+    })
+  })
+
+  describe('toSchemaDefinition', () => {
+    it('should wrap bare schemas and keep definitions', () => {
+      const parser = (value: unknown) => value
+
+      expect(toSchemaDefinition(parser)).toEqual({ schema: parser })
+      expect(toSchemaDefinition(numberSchema)).toEqual({
+        schema: numberSchema
+      })
+      expect(
+        toSchemaDefinition({ schema: parser, onInvalid: 'throw' })
+      ).toEqual({ schema: parser, onInvalid: 'throw' })
+    })
+  })
+
+  describe('runSchema', () => {
+    it('should run Standard Schema validators', () => {
+      expect(runSchema(numberSchema, 1)).toEqual({ success: true, value: 1 })
+      expect(runSchema(numberSchema, 'x')).toEqual({
+        success: false,
+        issues: [{ message: 'Expected number' }]
+      })
+    })
+
+    it('should run parser functions and report thrown errors', () => {
+      const parser = (value: unknown) => {
+        if (typeof value !== 'string') throw new Error('Expected string')
+        return value.trim()
+      }
+
+      expect(runSchema(parser, ' a ')).toEqual({ success: true, value: 'a' })
+      expect(runSchema(parser, 1)).toEqual({
+        success: false,
+        issues: [{ message: 'Expected string' }]
+      })
+    })
+
+    it('should reject asynchronous validators', () => {
+      const asyncSchema: StandardSchemaV1 = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: async (value) => ({ value })
+        }
+      }
+
+      expect(() => runSchema(asyncSchema, 1)).toThrow(
+        'Asynchronous schemas are not supported'
+      )
+    })
+  })
+})
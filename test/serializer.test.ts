@@ -0,0 +1,88 @@
+import superjson from 'superjson'
+import { describe, expect, it } from 'vitest'
+
+import {
+  isSuperJsonShape,
+  jsonSerializer,
+  rawSerializer,
+  superjsonSerializer
+} from '../src/serializer'
+
+describe('Serializer', () => {
+  describe('isSuperJsonShape', () => {
+    it('should only accept { json, meta? } objects', () => {
+      expect(isSuperJsonShape({ json: 1 })).toBe(true)
+      expect(isSuperJsonShape(superjson.serialize(new Date()))).toBe(true)
+      expect(isSuperJsonShape({ json: 1, name: 'x' })).toBe(false)
+      expect(isSuperJsonShape({ meta: {} })).toBe(false)
+      expect(isSuperJsonShape([1])).toBe(false)
+      expect(isSuperJsonShape(null)).toBe(false)
+    })
+  })
+
+  describe('superjsonSerializer', () => {
+    const roundTrip = (value: any) =>
+      superjsonSerializer.parse(superjsonSerializer.stringify(value))
+
+    it('should store plain strings as-is', () => {
+      expect(superjsonSerializer.stringify('hello world')).toBe('hello world')
+      expect(superjsonSerializer.parse('hello world')).toBe('hello world')
+    })
+
+    it('should round-trip strings that look like JSON', () => {
+      expect(roundTrip('42')).toBe('42')
+      expect(roundTrip('true')).toBe('true')
+      expect(roundTrip('null')).toBe('null')
+      expect(roundTrip('{"json":1}')).toBe('{"json":1}')
+    })
+
+    it('should round-trip objects with a json property', () => {
+      expect(roundTrip({ json: 1 })).toEqual({ json: 1 })
+      expect(roundTrip({ json: 1, meta: 'x' })).toEqual({ json: 1, meta: 'x' })
+    })
+
+    it('should round-trip special types', () => {
+      const value = {
+        date: new Date('2024-01-01T00:00:00Z'),
+        set: new Set([1, 2]),
+        big: BigInt(10)
+      }
+      expect(roundTrip(value)).toEqual(value)
+    })
+
+    it('should read plain JSON written elsewhere', () => {
+      expect(superjsonSerializer.parse('{"a":1}')).toEqual({ a: 1 })
+      expect(superjsonSerializer.parse('[1,2]')).toEqual([1, 2])
+    })
+  })
+
+  describe('jsonSerializer', () => {
+    it('should write plain JSON', () => {
+      expect(jsonSerializer.stringify({ a: 1 })).toBe('{"a":1}')
+      expect(jsonSerializer.stringify(undefined)).toBe('null')
+      expect(jsonSerializer.stringify('text')).toBe('text')
+      expect(jsonSerializer.stringify('42')).toBe('"42"')
+    })
+
+    it('should round-trip values', () => {
+      for (const value of [{ json: 1 }, '42', 'text', 3, [1, 'a'], null]) {
+        expect(jsonSerializer.parse(jsonSerializer.stringify(value))).toEqual(
+          value
+        )
+      }
+    })
+  })
+
+  describe('rawSerializer', () => {
+    it('should keep strings untouched', () => {
+      expect(rawSerializer.stringify('42')).toBe('42')
+      expect(rawSerializer.parse('{"a":1}')).toBe('{"a":1}')
+    })
+
+    it('should reject non-string values', () => {
+      expect(() => rawSerializer.stringify(1)).toThrow(
+        'rawSerializer can only store strings, got number'
+      )
+    })
+  })
+})
@@ -1,7 +1,13 @@
 import type { StorageAdapter } from '../src/types'
 
-import { beforeEach, describe, expect, it } from 'vitest'
-
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+  StoradaptPatchError,
+  StoradaptValidationError,
+  StorageQuotaError
+} from '../src/errors'
+import { jsonSerializer, rawSerializer } from '../src/serializer'
 import { Storadapt } from '../src/storage'
 
 describe('Storadapt Storage', () => {
@@ -250,6 +256,497 @@ describe('Storadapt Storage', () => {
     })
   })
 
+  describe('Path Syntax', () => {
+    it('should address keys containing dots with brackets', () => {
+      storage.set('cfg["api.example.com"].timeout', 3000, { createPath: true })
+      storage.set('cfg["api.example.com"].retries', 2)
+
+      expect(storage.get('cfg')).toEqual({
+        'api.example.com': { timeout: 3000, retries: 2 }
+      })
+      expect(storage.get(`cfg['api.example.com'].timeout`)).toBe(3000)
+      expect(storage.has('cfg["cdn.example.com"]')).toBe(false)
+    })
+
+    it('should support backslash escapes', () => {
+      storage.set('emails.alice@example\\.com', true)
+
+      expect(storage.get('emails')).toEqual({ 'alice@example.com': true })
+      storage.remove('emails.alice@example\\.com')
+      expect(storage.get('emails')).toEqual({})
+    })
+
+    it('should support array-form paths', () => {
+      storage.set(['cfg', 'api.example.com'], { timeout: 1 })
+      storage.set(['cfg', 'api.example.com', 'tags'], ['a'])
+      storage.set(['cfg', 'api.example.com', 'tags', 1], 'b', {
+        createPath: true
+      })
+
+      expect(storage.get(['cfg', 'api.example.com', 'tags'])).toEqual([
+        'a',
+        'b'
+      ])
+      expect(storage.get('cfg["api.example.com"].tags[1]')).toBe('b')
+    })
+
+    it('should store root keys that contain dots', () => {
+      storage.set(['app.settings'], { theme: 'dark' })
+      storage.set('["app.settings"].lang', 'en')
+
+      expect(store['app.settings']).toBeDefined()
+      expect(storage.get('app\\.settings')).toEqual({
+        theme: 'dark',
+        lang: 'en'
+      })
+      expect(storage.has(['app.settings'])).toBe(true)
+
+      storage.remove(['app.settings'])
+      expect(store['app.settings']).toBeUndefined()
+    })
+
+    it('should watch bracket paths', () => {
+      const callback = vi.fn()
+      storage.watch('cfg["api.example.com"]', callback)
+
+      storage.set(['cfg', 'api.example.com'], 1)
+
+      expect(callback).toHaveBeenCalledWith(1, null, expect.any(Object))
+    })
+
+    it('should report malformed paths without throwing', () => {
+      const spy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(storage.get('cfg[0', { defaultValue: 'fallback' })).toBe(
+        'fallback'
+      )
+      expect(spy).toHaveBeenCalled()
+      spy.mockRestore()
+    })
+  })
+
+  describe('Array Helpers', () => {
+    it('should push and unshift on root keys and deep paths', () => {
+      expect(storage.push('list', 'b', 'c')).toBe(2)
+      expect(storage.unshift('list', 'a')).toBe(3)
+      expect(storage.get('list')).toEqual(['a', 'b', 'c'])
+
+      storage.set('user', { name: 'Alice' })
+      expect(storage.push('user.tags', 'admin')).toBe(1)
+      expect(storage.push('user.infos.0.emails', 'a@example.com')).toBe(1)
+      expect(storage.get('user')).toEqual({
+        name: 'Alice',
+        tags: ['admin'],
+        infos: [{ emails: ['a@example.com'] }]
+      })
+    })
+
+    it('should persist each operation in one write', () => {
+      storage.set('list', [1, 2])
+      const setItem = vi.spyOn(mockAdapter, 'setItem')
+
+      storage.push('list', 3, 4, 5)
+      storage.removeWhere('list', (item) => item % 2 === 0)
+
+      expect(setItem).toHaveBeenCalledTimes(2)
+      expect(storage.get('list')).toEqual([1, 3, 5])
+    })
+
+    it('should insert and splice', () => {
+      storage.set('list', ['a', 'd'])
+
+      expect(storage.insert('list', 1, 'b', 'c')).toBe(4)
+      expect(storage.insert('list', -1, 'x')).toBe(5)
+      expect(storage.get('list')).toEqual(['a', 'b', 'c', 'x', 'd'])
+
+      expect(storage.splice('list', 3, 1)).toEqual(['x'])
+      expect(storage.splice('list', 1, 2, 'B')).toEqual(['b', 'c'])
+      expect(storage.splice('list', 2)).toEqual(['d'])
+      expect(storage.get('list')).toEqual(['a', 'B'])
+    })
+
+    it('should pop items', () => {
+      storage.set('stack', [1, 2])
+
+      expect(storage.pop('stack')).toBe(2)
+      expect(storage.pop('stack')).toBe(1)
+      expect(storage.pop('stack')).toBeNull()
+      expect(storage.pop('missing')).toBeNull()
+      expect(storage.has('missing')).toBe(false)
+    })
+
+    it('should move items', () => {
+      storage.set('todos', { items: ['a', 'b', 'c', 'd'] })
+
+      storage.move('todos.items', 0, 2)
+      expect(storage.get('todos.items')).toEqual(['b', 'c', 'a', 'd'])
+
+      storage.move('todos.items', -1, 0)
+      expect(storage.get('todos.items')).toEqual(['d', 'b', 'c', 'a'])
+    })
+
+    it('should resolve negative targets against the original length', () => {
+      storage.set('list', ['a', 'b', 'c'])
+
+      storage.move('list', 0, -1)
+      expect(storage.get('list')).toEqual(['b', 'c', 'a'])
+
+      storage.move('list', -1, -3)
+      expect(storage.get('list')).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should remove matching items', () => {
+      storage.set('users', [
+        { id: 1, active: true },
+        { id: 2, active: false },
+        { id: 3, active: false }
+      ])
+
+      expect(storage.removeWhere('users', (user) => !user.active)).toBe(2)
+      expect(storage.get('users')).toEqual([{ id: 1, active: true }])
+      expect(storage.removeWhere('missing', () => true)).toBe(0)
+    })
+
+    it('should keep the expiration of the stored entry', () => {
+      vi.useFakeTimers()
+      storage.set('list', [1], { ttl: 100 })
+
+      storage.push('list', 2)
+      vi.advanceTimersByTime(150)
+
+      expect(storage.get('list')).toBeNull()
+      vi.useRealTimers()
+    })
+
+    it('should emit a single change event', () => {
+      storage.set('list', [1])
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      storage.push('list', 2)
+
+      expect(listener).toHaveBeenCalledOnce()
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ oldValue: [1], newValue: [1, 2] })
+      )
+    })
+
+    it('should warn instead of mutating non-arrays', () => {
+      const spy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      storage.set('user', { name: 'Alice' })
+
+      expect(storage.push('user.name', 'x')).toBe(0)
+      storage.move('user.name', 0, 1)
+
+      expect(spy).toHaveBeenCalledTimes(2)
+      expect(storage.get('user')).toEqual({ name: 'Alice' })
+      spy.mockRestore()
+    })
+
+    it('should log out-of-bounds moves without writing', () => {
+      const spy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      storage.set('list', ['a'])
+
+      storage.move('list', 3, 0)
+      storage.move('list', 0, 1)
+      storage.move('list', 0, -2)
+
+      expect(spy).toHaveBeenCalledTimes(3)
+      expect(storage.get('list')).toEqual(['a'])
+      spy.mockRestore()
+    })
+  })
+
+  describe('Merge and Update', () => {
+    beforeEach(() => {
+      storage.set('user', {
+        name: 'Alice',
+        settings: { theme: 'light', lang: 'en' },
+        tags: ['a']
+      })
+    })
+
+    it('should deep merge in one read and one write', () => {
+      const getItem = vi.spyOn(mockAdapter, 'getItem')
+      const setItem = vi.spyOn(mockAdapter, 'setItem')
+
+      storage.merge('user', { settings: { theme: 'dark' }, age: 30 })
+
+      expect(storage.get('user')).toEqual({
+        name: 'Alice',
+        age: 30,
+        settings: { theme: 'dark', lang: 'en' },
+        tags: ['a']
+      })
+      expect(setItem).toHaveBeenCalledOnce()
+      // The other read is the `get` above
+      expect(getItem).toHaveBeenCalledTimes(2)
+    })
+
+    it('should merge arrays according to the strategy', () => {
+      storage.merge('user', { tags: ['b'] })
+      expect(storage.get('user.tags')).toEqual(['b'])
+
+      storage.merge('user', { tags: ['c'] }, { arrays: 'concat' })
+      expect(storage.get('user.tags')).toEqual(['b', 'c'])
+
+      storage.merge('user', { tags: ['x'] }, { arrays: 'byIndex' })
+      expect(storage.get('user.tags')).toEqual(['x', 'c'])
+    })
+
+    it('should merge into deep paths and missing keys', () => {
+      storage.merge('user.settings', { lang: 'fr' })
+      storage.merge('user.profile.address', { city: 'Paris' })
+      storage.merge('config', { debug: true })
+
+      expect(storage.get('user.settings')).toEqual({
+        theme: 'light',
+        lang: 'fr'
+      })
+      expect(storage.get('user.profile')).toEqual({
+        address: { city: 'Paris' }
+      })
+      expect(storage.get('config')).toEqual({ debug: true })
+    })
+
+    it('should update with the returned value', () => {
+      storage.set('counter', 1)
+
+      storage.update('counter', (count) => count + 1)
+      storage.update('user.name', (name) => name.toUpperCase())
+      storage.update('visits', (visits) => (visits ?? 0) + 1)
+
+      expect(storage.get('counter')).toBe(2)
+      expect(storage.get('user.name')).toBe('ALICE')
+      expect(storage.get('visits')).toBe(1)
+    })
+
+    it('should update values mutated in place', () => {
+      const setItem = vi.spyOn(mockAdapter, 'setItem')
+
+      storage.update('user', (user) => {
+        user.name = 'Bob'
+        user.tags.push('b')
+      })
+      storage.update('missing', () => {})
+
+      expect(setItem).toHaveBeenCalledOnce()
+      expect(storage.get('user.name')).toBe('Bob')
+      expect(storage.get('user.tags')).toEqual(['a', 'b'])
+      expect(storage.has('missing')).toBe(false)
+    })
+
+    it('should keep metadata and emit one change event', () => {
+      vi.useFakeTimers()
+      storage.set('session', { user: 'Alice' }, { ttl: 100 })
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      storage.merge('session', { token: 'abc' })
+
+      expect(listener).toHaveBeenCalledOnce()
+      vi.advanceTimersByTime(150)
+      expect(storage.get('session')).toBeNull()
+      vi.useRealTimers()
+    })
+
+    it('should log updater errors without writing', () => {
+      const spy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      storage.update('user', () => {
+        throw new Error('boom')
+      })
+
+      expect(spy).toHaveBeenCalled()
+      expect(storage.get('user.name')).toBe('Alice')
+      spy.mockRestore()
+    })
+  })
+
+  describe('JSON Patch', () => {
+    beforeEach(() => {
+      storage.set('doc', { title: 'Draft', tags: ['a'], meta: { rev: 1 } })
+    })
+
+    it('should apply a patch in one write', () => {
+      const setItem = vi.spyOn(mockAdapter, 'setItem')
+
+      storage.applyPatch('doc', [
+        { op: 'test', path: '/meta/rev', value: 1 },
+        { op: 'replace', path: '/title', value: 'Final' },
+        { op: 'add', path: '/tags/-', value: 'b' },
+        { op: 'replace', path: '/meta/rev', value: 2 }
+      ])
+
+      expect(setItem).toHaveBeenCalledOnce()
+      expect(storage.get('doc')).toEqual({
+        title: 'Final',
+        tags: ['a', 'b'],
+        meta: { rev: 2 }
+      })
+    })
+
+    it('should resolve pointers relative to a deep path', () => {
+      storage.applyPatch('doc.meta', [
+        { op: 'add', path: '/author', value: 'Al' }
+      ])
+
+      expect(storage.get('doc.meta')).toEqual({ rev: 1, author: 'Al' })
+    })
+
+    it('should write nothing when an operation fails', () => {
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      expect(() =>
+        storage.applyPatch('doc', [
+          { op: 'replace', path: '/title', value: 'Final' },
+          { op: 'test', path: '/meta/rev', value: 5 }
+        ])
+      ).toThrow(StoradaptPatchError)
+
+      expect(storage.get('doc.title')).toBe('Draft')
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should diff the stored value', () => {
+      const next = { title: 'Draft', tags: ['a', 'c'], meta: { rev: 1 } }
+      const patch = storage.diff('doc', next)
+
+      expect(patch).toEqual([{ op: 'add', path: '/tags/1', value: 'c' }])
+
+      storage.applyPatch('doc', patch)
+      expect(storage.get('doc')).toEqual(next)
+    })
+
+    it('should apply merge patches', () => {
+      storage.applyMergePatch('doc', { title: 'Final', meta: null })
+      storage.applyMergePatch('settings', { theme: 'dark' })
+
+      expect(storage.get('doc')).toEqual({ title: 'Final', tags: ['a'] })
+      expect(storage.get('settings')).toEqual({ theme: 'dark' })
+    })
+  })
+
+  describe('Transactions', () => {
+    it('should coalesce writes to the same storage key', () => {
+      storage.set('user', { name: 'Alice', age: 30 })
+      const setItem = vi.spyOn(mockAdapter, 'setItem')
+
+      const result = storage.transaction((tx) => {
+        tx.set('user.name', 'Bob')
+        tx.set('user.age', 31)
+        tx.set('count', 1)
+        return tx.get('user.name')
+      })
+
+      expect(result).toBe('Bob')
+      expect(setItem).toHaveBeenCalledTimes(2)
+      expect(storage.get('user')).toEqual({ name: 'Bob', age: 31 })
+      expect(storage.get('count')).toBe(1)
+    })
+
+    it('should only write when the callback returns', () => {
+      storage.set('a', 1)
+
+      storage.transaction((tx) => {
+        tx.set('a', 2)
+        tx.remove('b')
+        expect(storage.get('a')).toBe(1)
+        expect(tx.get('a')).toBe(2)
+      })
+
+      expect(storage.get('a')).toBe(2)
+    })
+
+    it('should write nothing when the callback throws', () => {
+      storage.set('a', 1)
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      expect(() =>
+        storage.transaction((tx) => {
+          tx.set('a', 2)
+          tx.set('b', 3)
+          throw new Error('abort')
+        })
+      ).toThrow('abort')
+
+      expect(storage.get('a')).toBe(1)
+      expect(storage.has('b')).toBe(false)
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should restore prior values when a write fails', () => {
+      storage.set('a', 1)
+      storage.set('b', 2)
+      const setItem = mockAdapter.setItem
+      vi.spyOn(mockAdapter, 'setItem').mockImplementation((key, value) => {
+        if (key === 'c') throw new Error('disk full')
+        setItem(key, value)
+      })
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      expect(() =>
+        storage.transaction((tx) => {
+          tx.set('a', 10)
+          tx.remove('b')
+          tx.set('c', 30)
+        })
+      ).toThrow('disk full')
+
+      expect(storage.get('a')).toBe(1)
+      expect(storage.get('b')).toBe(2)
+      expect(storage.has('c')).toBe(false)
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should emit change events after commit', () => {
+      storage.set('a', 1)
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      storage.transaction((tx) => {
+        tx.set('a', 2)
+        tx.set('a', 3)
+        tx.set('b', 'x')
+        tx.remove('b')
+        expect(listener).not.toHaveBeenCalled()
+      })
+
+      expect(listener).toHaveBeenCalledOnce()
+      expect(listener).toHaveBeenCalledWith({
+        key: 'a',
+        oldValue: 1,
+        newValue: 3,
+        source: 'local'
+      })
+    })
+
+    it('should validate staged writes with registered schemas', () => {
+      storage.defineSchema('count', (value) => {
+        if (typeof value !== 'number') throw new TypeError('Not a number')
+        return value
+      })
+
+      storage.transaction((tx) => {
+        tx.set('count', 'many')
+        tx.set('other', 'x')
+      })
+
+      expect(storage.has('count')).toBe(false)
+      expect(storage.get('other')).toBe('x')
+    })
+
+    it('should reject asynchronous callbacks', () => {
+      expect(() => storage.transaction(async (tx) => tx.set('a', 1))).toThrow(
+        TypeError
+      )
+      expect(storage.has('a')).toBe(false)
+    })
+  })
+
   describe('Length and Key', () => {
     it('should return correct length', () => {
       storage.set('key1', 'value1')
@@ -322,6 +819,607 @@ describe('Storadapt Storage', () => {
     })
   })
 
+  describe('Change Subscription', () => {
+    it('should emit change events for set, remove and clear', () => {
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      storage.set('a', 1)
+      storage.set('a', 2)
+      storage.remove('a')
+      storage.set('b', { x: 1 })
+      storage.clear()
+
+      expect(listener.mock.calls.map(([event]) => event)).toEqual([
+        { key: 'a', oldValue: null, newValue: 1, source: 'local' },
+        { key: 'a', oldValue: 1, newValue: 2, source: 'local' },
+        { key: 'a', oldValue: 2, newValue: null, source: 'local' },
+        { key: 'b', oldValue: null, newValue: { x: 1 }, source: 'local' },
+        { key: 'b', oldValue: { x: 1 }, newValue: null, source: 'local' }
+      ])
+    })
+
+    it('should emit root values for deep path writes', () => {
+      storage.set('user', { name: 'John', age: 30 })
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      storage.set('user.age', 31)
+      storage.remove('user.name')
+
+      expect(listener).toHaveBeenNthCalledWith(1, {
+        key: 'user',
+        oldValue: { name: 'John', age: 30 },
+        newValue: { name: 'John', age: 31 },
+        source: 'local'
+      })
+      expect(listener).toHaveBeenNthCalledWith(2, {
+        key: 'user',
+        oldValue: { name: 'John', age: 31 },
+        newValue: { age: 31 },
+        source: 'local'
+      })
+    })
+
+    it('should not emit when removing a missing key', () => {
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      storage.remove('missing')
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should stop emitting after unsubscribe', () => {
+      const listener = vi.fn()
+      const off = storage.on('change', listener)
+
+      off()
+      storage.set('a', 1)
+      expect(listener).not.toHaveBeenCalled()
+    })
+
+    it('should watch a root key', () => {
+      const callback = vi.fn()
+      storage.watch('theme', callback)
+
+      storage.set('theme', 'dark')
+      storage.set('other', 'value')
+
+      expect(callback).toHaveBeenCalledOnce()
+      expect(callback).toHaveBeenCalledWith('dark', null, {
+        key: 'theme',
+        oldValue: null,
+        newValue: 'dark',
+        source: 'local'
+      })
+    })
+
+    it('should watch a deep path changed through root or parent writes', () => {
+      storage.set('user', { profile: { name: 'John' }, age: 30 })
+      const callback = vi.fn()
+      storage.watch('user.profile.name', callback)
+
+      storage.set('user.profile', { name: 'Jane' })
+      storage.set('user', { profile: { name: 'Alice' }, age: 30 })
+      storage.set('user.profile.name', 'Bob')
+
+      expect(
+        callback.mock.calls.map(([newValue, oldValue]) => [newValue, oldValue])
+      ).toEqual([
+        ['Jane', 'John'],
+        ['Alice', 'Jane'],
+        ['Bob', 'Alice']
+      ])
+    })
+
+    it('should not fire watcher when a sibling path changes', () => {
+      storage.set('user', { profile: { name: 'John' }, age: 30 })
+      const callback = vi.fn()
+      storage.watch('user.profile.name', callback)
+
+      storage.set('user.age', 31)
+      expect(callback).not.toHaveBeenCalled()
+    })
+
+    it('should fire watcher with null when the path disappears', () => {
+      storage.set('user', { profile: { name: 'John' } })
+      const callback = vi.fn()
+      storage.watch('user.profile.name', callback)
+
+      storage.remove('user')
+      expect(callback).toHaveBeenCalledWith(null, 'John', expect.any(Object))
+    })
+
+    it('should keep storage working when a listener throws', () => {
+      storage.on('change', () => {
+        throw new Error('listener error')
+      })
+
+      storage.set('a', 1)
+      expect(storage.get('a')).toBe(1)
+    })
+  })
+
+  describe('Expiration', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should return value before ttl elapses', () => {
+      storage.set('token', 'abc', { ttl: 1000 })
+
+      vi.advanceTimersByTime(999)
+      expect(storage.get('token')).toBe('abc')
+      expect(storage.has('token')).toBe(true)
+    })
+
+    it('should treat expired key as missing and delete it lazily', () => {
+      storage.set('token', 'abc', { ttl: 1000 })
+
+      vi.advanceTimersByTime(1000)
+      expect(storage.get('token', { defaultValue: 'none' })).toBe('none')
+      expect(store.token).toBeUndefined()
+      expect(storage.has('token')).toBe(false)
+    })
+
+    it('should support absolute expiresAt', () => {
+      storage.set('a', 1, { expiresAt: Date.now() + 500 })
+      storage.set('b', 2, { expiresAt: new Date(Date.now() + 2000) })
+
+      vi.advanceTimersByTime(1000)
+      expect(storage.get('a')).toBeNull()
+      expect(storage.get('b')).toBe(2)
+    })
+
+    it('should expire deep paths with their root key', () => {
+      storage.set('cache', { user: { name: 'Alice' } }, { ttl: 1000 })
+
+      expect(storage.get('cache.user.name')).toBe('Alice')
+      vi.advanceTimersByTime(1000)
+      expect(storage.get('cache.user.name', { defaultValue: '' })).toBe('')
+      expect(storage.has('cache.user.name')).toBe(false)
+    })
+
+    it('should keep expiration when writing a deep path', () => {
+      storage.set('cache', { count: 1 }, { ttl: 1000 })
+      storage.set('cache.count', 2)
+
+      vi.advanceTimersByTime(1000)
+      expect(storage.get('cache')).toBeNull()
+    })
+
+    it('should clear expiration when overwriting the root key', () => {
+      storage.set('cache', { count: 1 }, { ttl: 1000 })
+      storage.set('cache', { count: 2 })
+
+      vi.advanceTimersByTime(1000)
+      expect(storage.get('cache')).toEqual({ count: 2 })
+    })
+
+    it('should purge all expired keys', () => {
+      storage.set('a', 1, { ttl: 100 })
+      storage.set('b', 2, { ttl: 100 })
+      storage.set('c', 3, { ttl: 5000 })
+      storage.set('d', 4)
+
+      vi.advanceTimersByTime(100)
+      expect(storage.purgeExpired()).toBe(2)
+      expect(Object.keys(store)).toEqual(['c', 'd'])
+    })
+
+    it('should round-trip objects that contain the envelope key', () => {
+      const value = { __storadapt__: { expiresAt: 0 }, value: 'x' }
+      storage.set('tricky', value)
+
+      expect(storage.get('tricky')).toEqual(value)
+    })
+  })
+
+  describe('Schema Validation', () => {
+    const userParser = (value: any) => {
+      if (typeof value?.name !== 'string') throw new Error('name is required')
+      return { name: value.name, age: Number(value.age ?? 0) }
+    }
+
+    it('should validate and transform values on set and get', () => {
+      storage.defineSchema('user', userParser)
+
+      storage.set('user', { name: 'Alice', age: '30' })
+      expect(storage.get('user')).toEqual({ name: 'Alice', age: 30 })
+
+      storage.set('user.age', '31')
+      expect(storage.get('user.age')).toBe(31)
+    })
+
+    it('should skip invalid writes by default', () => {
+      storage.defineSchema('user', userParser)
+      storage.set('user', { name: 'Alice' })
+
+      storage.set('user', { age: 1 })
+      storage.set('user.name', 42)
+
+      expect(storage.get('user')).toEqual({ name: 'Alice', age: 0 })
+    })
+
+    it('should return default value for invalid stored data', () => {
+      storage.defineSchema('user', userParser)
+      store.user = '{"json":{"broken":true}}'
+
+      expect(
+        storage.get('user', { defaultValue: { name: '', age: 0 } })
+      ).toEqual({ name: '', age: 0 })
+      expect(storage.get('user.name', { defaultValue: '-' })).toBe('-')
+      expect(storage.has('user')).toBe(false)
+      expect(store.user).toBeDefined()
+    })
+
+    it('should remove invalid stored data with remove policy', () => {
+      storage.defineSchema('user', userParser, { onInvalid: 'remove' })
+      store.user = '{"json":{"broken":true}}'
+
+      expect(storage.get('user')).toBeNull()
+      expect(store.user).toBeUndefined()
+    })
+
+    it('should throw with throw policy', () => {
+      storage.defineSchema('user', userParser, { onInvalid: 'throw' })
+      store.user = '{"json":{"broken":true}}'
+
+      expect(() => storage.get('user')).toThrow(StoradaptValidationError)
+      expect(() => storage.set('user', { age: 1 })).toThrow(
+        'Invalid value for key "user": name is required'
+      )
+    })
+
+    it('should accept Standard Schema validators from options', () => {
+      const schemaStorage = new Storadapt(mockAdapter, {
+        schemas: {
+          count: {
+            '~standard': {
+              version: 1,
+              vendor: 'test',
+              validate: (value) =>
+                Number.isInteger(value)
+                  ? { value }
+                  : { issues: [{ message: 'Expected integer' }] }
+            }
+          }
+        }
+      })
+
+      schemaStorage.set('count', 1.5)
+      expect(schemaStorage.get('count')).toBeNull()
+      schemaStorage.set('count', 2)
+      expect(schemaStorage.get('count')).toBe(2)
+    })
+  })
+
+  describe('Versioning and Migrations', () => {
+    const userMigration = {
+      version: 2,
+      migrations: {
+        0: (old: any) => ({ fullName: old.name }),
+        1: (old: any) => ({ ...old, tags: [] })
+      }
+    }
+
+    it('should stamp the current version on writes', () => {
+      storage.defineMigration('user', userMigration)
+      storage.set('user', { fullName: 'Alice', tags: [] })
+
+      expect(JSON.parse(store.user).json.__storadapt__).toEqual({ version: 2 })
+      expect(storage.get('user')).toEqual({ fullName: 'Alice', tags: [] })
+    })
+
+    it('should migrate unversioned values lazily and persist them', () => {
+      new Storadapt(mockAdapter).set('user', { name: 'Alice' })
+      storage.defineMigration('user', userMigration)
+
+      expect(storage.get('user.fullName')).toBe('Alice')
+      expect(storage.get('user')).toEqual({ fullName: 'Alice', tags: [] })
+      expect(new Storadapt(mockAdapter).get('user')).toEqual({
+        fullName: 'Alice',
+        tags: []
+      })
+    })
+
+    it('should only run migrations from the stored version', () => {
+      const v1 = new Storadapt(mockAdapter, {
+        migrations: { user: { version: 1 } }
+      })
+      v1.set('user', { fullName: 'Bob' })
+
+      storage.defineMigration('user', userMigration)
+      expect(storage.get('user')).toEqual({ fullName: 'Bob', tags: [] })
+    })
+
+    it('should keep expiration when migrating', () => {
+      vi.useFakeTimers()
+      new Storadapt(mockAdapter).set('user', { name: 'Alice' }, { ttl: 1000 })
+      storage.defineMigration('user', userMigration)
+
+      expect(storage.get('user.fullName')).toBe('Alice')
+      vi.advanceTimersByTime(1000)
+      expect(storage.get('user')).toBeNull()
+      vi.useRealTimers()
+    })
+
+    it('should apply defaultMigration to every key', () => {
+      const legacy = new Storadapt(mockAdapter)
+      legacy.set('a', 1)
+      legacy.set('b', 2)
+
+      const versioned = new Storadapt(mockAdapter, {
+        defaultMigration: {
+          version: 1,
+          migrations: { 0: (n: number) => n * 10 }
+        }
+      })
+
+      expect(versioned.get('a')).toBe(10)
+      expect(versioned.get('b')).toBe(20)
+    })
+
+    it('should migrate everything eagerly with migrateAll', () => {
+      const legacy = new Storadapt(mockAdapter)
+      legacy.set('user', { name: 'Alice' })
+      legacy.set('other', 'untouched')
+      storage.defineMigration('user', userMigration)
+
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      expect(storage.migrateAll()).toBe(1)
+      expect(storage.migrateAll()).toBe(0)
+      expect(legacy.get('user')).toEqual({ fullName: 'Alice', tags: [] })
+      expect(listener).toHaveBeenCalledOnce()
+    })
+  })
+
+  describe('Namespaces', () => {
+    it('should prefix keys transparently', () => {
+      const checkout = storage.namespace('checkout')
+
+      checkout.set('cart', { items: ['apple'] })
+      checkout.set('cart.items.1', 'pear', { createPath: true })
+
+      expect(checkout.get('cart.items')).toEqual(['apple', 'pear'])
+      expect(storage.get('checkout:cart')).toEqual({ items: ['apple', 'pear'] })
+      expect(storage.get('cart')).toBeNull()
+    })
+
+    it('should scope length, key and clear', () => {
+      storage.set('shared', 1)
+      const checkout = storage.namespace('checkout')
+      const profile = storage.namespace('profile')
+      checkout.set('cart', [])
+      profile.set('name', 'Alice')
+
+      expect(checkout.length).toBe(1)
+      expect(checkout.key(0)).toBe('cart')
+
+      checkout.clear()
+
+      expect(checkout.length).toBe(0)
+      expect(profile.get('name')).toBe('Alice')
+      expect(storage.get('shared')).toBe(1)
+    })
+
+    it('should support nested namespaces and their own options', () => {
+      const v2 = storage.namespace('app').namespace('v2', {
+        defaultMigration: { version: 1 }
+      })
+
+      v2.set('settings', { theme: 'dark' })
+      expect(Object.keys(store)).toEqual(['app:v2:settings'])
+      expect(v2.get('settings.theme')).toBe('dark')
+    })
+  })
+
+  describe('Serializer', () => {
+    it('should round-trip strings that look like other types', () => {
+      storage.set('numeric', '42')
+      storage.set('object', '{"json":{"a":1}}')
+
+      expect(storage.get('numeric')).toBe('42')
+      expect(storage.get('object')).toBe('{"json":{"a":1}}')
+    })
+
+    it('should use a custom serializer', () => {
+      const jsonStorage = new Storadapt(mockAdapter, {
+        serializer: jsonSerializer
+      })
+
+      jsonStorage.set('user', { name: 'Alice' })
+      expect(store.user).toBe('{"name":"Alice"}')
+      expect(jsonStorage.get('user.name')).toBe('Alice')
+    })
+
+    it('should store raw strings with rawSerializer', () => {
+      const rawStorage = new Storadapt(mockAdapter, {
+        serializer: rawSerializer
+      })
+
+      rawStorage.set('token', '{"not":"parsed"}')
+      expect(store.token).toBe('{"not":"parsed"}')
+      expect(rawStorage.get('token')).toBe('{"not":"parsed"}')
+    })
+
+    it('should inherit the serializer in namespaces', () => {
+      const jsonStorage = new Storadapt(mockAdapter, {
+        serializer: jsonSerializer
+      })
+
+      jsonStorage.namespace('app').set('config', { debug: true })
+      expect(store['app:config']).toBe('{"debug":true}')
+    })
+  })
+
+  describe('Quota', () => {
+    let limit: number
+    let quotaAdapter: StorageAdapter
+
+    const usedSize = (exceptKey?: string) =>
+      Object.entries(store)
+        .filter(([key]) => key !== exceptKey)
+        .reduce((sum, [key, value]) => sum + key.length + value.length, 0)
+
+    // Freeze the quota at the current usage, like a full localStorage
+    const fillQuota = () => {
+      limit = usedSize() + 10
+    }
+
+    beforeEach(() => {
+      limit = Infinity
+      quotaAdapter = {
+        ...mockAdapter,
+        setItem: (key, value) => {
+          if (usedSize(key) + key.length + value.length > limit) {
+            throw Object.assign(new Error('quota'), {
+              name: 'QuotaExceededError'
+            })
+          }
+          store[key] = value
+        }
+      }
+    })
+
+    it('should throw a StorageQuotaError without eviction', () => {
+      const quotaStorage = new Storadapt(quotaAdapter)
+      quotaStorage.set('a', 'x'.repeat(40))
+      fillQuota()
+
+      expect(() => quotaStorage.set('b', 'x'.repeat(40))).toThrow(
+        StorageQuotaError
+      )
+      expect(store.a).toBeDefined()
+      expect(store.b).toBeUndefined()
+    })
+
+    it('should evict the oldest-written entries first', () => {
+      vi.useFakeTimers()
+      const quotaStorage = new Storadapt(quotaAdapter, {
+        quota: { evict: 'oldest' }
+      })
+      quotaStorage.set('b', 'x'.repeat(40))
+      vi.advanceTimersByTime(10)
+      quotaStorage.set('a', 'x'.repeat(40))
+      quotaStorage.set('c', 'x'.repeat(40))
+      fillQuota()
+      vi.advanceTimersByTime(10)
+
+      quotaStorage.set('d', 'x'.repeat(40))
+
+      expect(Object.keys(store).sort()).toEqual(['a', 'c', 'd'])
+      vi.useRealTimers()
+    })
+
+    it('should evict the least recently used entries first', () => {
+      vi.useFakeTimers()
+      const quotaStorage = new Storadapt(quotaAdapter, {
+        quota: { evict: 'lru' }
+      })
+      quotaStorage.set('a', 'x'.repeat(40))
+      vi.advanceTimersByTime(10)
+      quotaStorage.set('b', 'x'.repeat(40))
+      quotaStorage.set('c', 'x'.repeat(40))
+      fillQuota()
+      vi.advanceTimersByTime(10)
+      quotaStorage.get('a')
+      vi.advanceTimersByTime(10)
+
+      quotaStorage.set('d', 'x'.repeat(40))
+
+      expect(Object.keys(store)).toHaveLength(3)
+      expect(store.a).toBeDefined()
+      expect(store.d).toBeDefined()
+      vi.useRealTimers()
+    })
+
+    it('should evict the lowest priority entries first', () => {
+      const quotaStorage = new Storadapt(quotaAdapter, {
+        quota: { evict: 'priority' }
+      })
+      quotaStorage.set('session', 'x'.repeat(40), { priority: 10 })
+      quotaStorage.set('draft', 'x'.repeat(40))
+      quotaStorage.set('cache', 'x'.repeat(40), { priority: -1 })
+      fillQuota()
+
+      quotaStorage.set('more', 'x'.repeat(40))
+
+      expect(Object.keys(store).sort()).toEqual(['draft', 'more', 'session'])
+    })
+
+    it('should only evict expired entries with the expired strategy', () => {
+      vi.useFakeTimers()
+      const listener = vi.fn()
+      const quotaStorage = new Storadapt(quotaAdapter, {
+        quota: { evict: 'expired' }
+      })
+      quotaStorage.set('a', 'x'.repeat(40), { ttl: 5 })
+      quotaStorage.set('b', 'x'.repeat(40))
+      fillQuota()
+      vi.advanceTimersByTime(10)
+      quotaStorage.on('change', listener)
+
+      quotaStorage.set('c', 'x'.repeat(80))
+      expect(Object.keys(store).sort()).toEqual(['b', 'c'])
+      // Expired entries are already gone for listeners
+      expect(listener).toHaveBeenCalledOnce()
+
+      expect(() => quotaStorage.set('d', 'x'.repeat(40))).toThrow(
+        StorageQuotaError
+      )
+      vi.useRealTimers()
+    })
+
+    it('should never evict foreign or undecodable values', () => {
+      const quotaStorage = new Storadapt(quotaAdapter, {
+        quota: { evict: 'oldest' }
+      })
+      store.foreign = JSON.stringify('x'.repeat(40))
+      store.broken = '{not json'
+      quotaStorage.set('a', 'x'.repeat(40))
+      fillQuota()
+
+      quotaStorage.set('b', 'x'.repeat(40))
+      expect(Object.keys(store).sort()).toEqual(['b', 'broken', 'foreign'])
+
+      expect(() => quotaStorage.set('c', 'x'.repeat(120))).toThrow(
+        StorageQuotaError
+      )
+      expect(store.foreign).toBeDefined()
+      expect(store.broken).toBeDefined()
+    })
+
+    it('should throw when nothing can be freed', () => {
+      const quotaStorage = new Storadapt(quotaAdapter, {
+        quota: { evict: 'oldest' }
+      })
+      quotaStorage.set('a', 'x'.repeat(40))
+      fillQuota()
+
+      expect(() => quotaStorage.set('b', 'x'.repeat(200))).toThrow(
+        'Storage quota exceeded while writing key "b"'
+      )
+      // Evicted entries stay evicted
+      expect(store).toEqual({})
+    })
+
+    it('should keep the priority when writing a deep path', () => {
+      storage.set('user', { name: 'Alice' }, { priority: 5 })
+      storage.set('user.name', 'Bob')
+
+      expect(store.user).toContain('"priority":5')
+      expect(storage.get('user')).toEqual({ name: 'Bob' })
+    })
+  })
+
   describe('Error Handling', () => {
     it('should handle errors gracefully when adapter fails', () => {
       const faultyAdapter: StorageAdapter = {
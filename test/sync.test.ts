@@ -0,0 +1,323 @@
+import type {
+  BroadcastChannelLike,
+  StorageAdapter,
+  StorageEventLike,
+  SyncMessage
+} from '../src/types'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createBrowserStoradapt } from '../src/index'
+import { Storadapt } from '../src/storage'
+import { createStorageSync } from '../src/sync'
+import { serialize } from '../src/util'
+
+type StorageListener = (event: StorageEventLike) => void
+type MessageListener = (event: { data: SyncMessage }) => void
+
+const createFakeWindow = () => {
+  const listeners = new Set<StorageListener>()
+
+  return {
+    listeners,
+    addEventListener: (_type: 'storage', listener: StorageListener) => {
+      listeners.add(listener)
+    },
+    removeEventListener: (_type: 'storage', listener: StorageListener) => {
+      listeners.delete(listener)
+    },
+    dispatch: (event: StorageEventLike) => {
+      listeners.forEach((listener) => listener(event))
+    }
+  }
+}
+
+/**
+ * Create connected channels, delivering messages to every other channel
+ */
+const createFakeChannels = (count: number) => {
+  const channels: (BroadcastChannelLike & {
+    listeners: Set<MessageListener>
+  })[] = []
+
+  for (let i = 0; i < count; i++) {
+    const listeners = new Set<MessageListener>()
+    const channel = {
+      listeners,
+      postMessage: (message: SyncMessage) => {
+        channels
+          .filter((other) => other !== channel)
+          .forEach((other) =>
+            other.listeners.forEach((listener) => listener({ data: message }))
+          )
+      },
+      addEventListener: (_type: 'message', listener: MessageListener) => {
+        listeners.add(listener)
+      },
+      removeEventListener: (_type: 'message', listener: MessageListener) => {
+        listeners.delete(listener)
+      },
+      close: vi.fn()
+    }
+    channels.push(channel)
+  }
+
+  return channels
+}
+
+const createMapAdapter = (
+  store = new Map<string, string>()
+): StorageAdapter => ({
+  getItem: (key) => store.get(key) ?? null,
+  setItem: (key, value) => {
+    store.set(key, value)
+  },
+  removeItem: (key) => {
+    store.delete(key)
+  },
+  clear: () => store.clear(),
+  length: () => store.size,
+  key: (index) => Array.from(store.keys())[index] ?? null
+})
+
+describe('Sync', () => {
+  describe('createStorageSync', () => {
+    it('should forward storage events with raw values', () => {
+      const fakeWindow = createFakeWindow()
+      const onChange = vi.fn()
+      createStorageSync({ target: fakeWindow }, onChange)
+
+      fakeWindow.dispatch({ key: 'a', oldValue: '1', newValue: '2' })
+
+      expect(onChange).toHaveBeenCalledWith('a', '2', '1', false)
+    })
+
+    it('should ignore events from other storage areas', () => {
+      const fakeWindow = createFakeWindow()
+      const area = {}
+      const onChange = vi.fn()
+      const onClear = vi.fn()
+      createStorageSync(
+        { target: fakeWindow, storageArea: area },
+        onChange,
+        onClear
+      )
+
+      fakeWindow.dispatch({ key: 'a', oldValue: null, newValue: '1' })
+      fakeWindow.dispatch({ key: null, oldValue: null, newValue: null })
+
+      expect(onChange).not.toHaveBeenCalled()
+      expect(onClear).not.toHaveBeenCalled()
+    })
+
+    it('should report clears separately', () => {
+      const fakeWindow = createFakeWindow()
+      const onChange = vi.fn()
+      const onClear = vi.fn()
+      createStorageSync({ target: fakeWindow }, onChange, onClear)
+
+      fakeWindow.dispatch({ key: null, oldValue: null, newValue: null })
+
+      expect(onClear).toHaveBeenCalledOnce()
+      expect(onChange).not.toHaveBeenCalled()
+    })
+
+    it('should detach listeners on destroy', () => {
+      const fakeWindow = createFakeWindow()
+      const [channel] = createFakeChannels(1)
+      const sync = createStorageSync({ target: fakeWindow, channel }, vi.fn())
+
+      sync.destroy()
+
+      expect(fakeWindow.listeners.size).toBe(0)
+      expect(channel.listeners.size).toBe(0)
+      // Channels passed in are owned by the caller
+      expect(channel.close).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Storadapt with sync', () => {
+    let fakeWindow: ReturnType<typeof createFakeWindow>
+    let store: Map<string, string>
+    let storage: Storadapt
+
+    beforeEach(() => {
+      fakeWindow = createFakeWindow()
+      store = new Map()
+      storage = new Storadapt(createMapAdapter(store), {
+        sync: { target: fakeWindow }
+      })
+    })
+
+    afterEach(() => {
+      storage.destroy()
+    })
+
+    it('should dispatch deserialized external changes to listeners', () => {
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      store.set('user', serialize({ name: 'Bob' }))
+      fakeWindow.dispatch({
+        key: 'user',
+        oldValue: serialize({ name: 'Alice' }),
+        newValue: serialize({ name: 'Bob' })
+      })
+
+      expect(listener).toHaveBeenCalledWith({
+        key: 'user',
+        oldValue: { name: 'Alice' },
+        newValue: { name: 'Bob' },
+        source: 'external'
+      })
+    })
+
+    it('should dispatch external changes to deep path watchers', () => {
+      const callback = vi.fn()
+      storage.watch('user.name', callback)
+
+      fakeWindow.dispatch({
+        key: 'user',
+        oldValue: serialize({ name: 'Alice' }),
+        newValue: null
+      })
+
+      expect(callback).toHaveBeenCalledWith(
+        null,
+        'Alice',
+        expect.objectContaining({ source: 'external' })
+      )
+    })
+
+    it('should drop cached values and pending writes on external clears', () => {
+      const synced = new Storadapt(createMapAdapter(store), {
+        cache: true,
+        writeBehind: { flushOnExit: false },
+        sync: { target: fakeWindow }
+      })
+      synced.set('theme', 'dark')
+      synced.flush()
+      synced.get('theme')
+      synced.set('draft', { title: 'Hello' })
+      const listener = vi.fn()
+      const callback = vi.fn()
+      synced.on('change', listener)
+      synced.watch('draft.title', callback)
+
+      store.clear()
+      fakeWindow.dispatch({ key: null, oldValue: null, newValue: null })
+
+      expect(synced.get('theme')).toBeNull()
+      expect(synced.get('draft')).toBeNull()
+      synced.flush()
+      expect(store.size).toBe(0)
+      expect(listener).toHaveBeenCalledWith({
+        key: 'theme',
+        oldValue: 'dark',
+        newValue: null,
+        source: 'external'
+      })
+      expect(callback).toHaveBeenCalledWith(
+        null,
+        'Hello',
+        expect.objectContaining({ source: 'external' })
+      )
+      synced.destroy()
+    })
+
+    it('should stop dispatching after destroy', () => {
+      const listener = vi.fn()
+      storage.on('change', listener)
+      storage.destroy()
+
+      fakeWindow.dispatch({ key: 'a', oldValue: null, newValue: '1' })
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Broadcast channel', () => {
+    it('should mirror writes between instances', () => {
+      const [channelA, channelB] = createFakeChannels(2)
+      const storeA = new Map<string, string>()
+      const storeB = new Map<string, string>()
+      const tabA = new Storadapt(createMapAdapter(storeA), {
+        sync: { target: false, channel: channelA }
+      })
+      const tabB = new Storadapt(createMapAdapter(storeB), {
+        sync: { target: false, channel: channelB }
+      })
+      const callback = vi.fn()
+      tabB.watch('draft.title', callback)
+
+      tabA.set('draft', { title: 'Hello' })
+      expect(tabB.get('draft')).toEqual({ title: 'Hello' })
+      expect(callback).toHaveBeenCalledWith(
+        'Hello',
+        null,
+        expect.objectContaining({ source: 'external' })
+      )
+
+      tabA.remove('draft')
+      expect(tabB.has('draft')).toBe(false)
+      expect(callback).toHaveBeenLastCalledWith(
+        null,
+        'Hello',
+        expect.objectContaining({ source: 'external' })
+      )
+    })
+
+    it('should not echo mirrored writes back', () => {
+      const [channelA, channelB] = createFakeChannels(2)
+      const postA = vi.spyOn(channelA, 'postMessage')
+      const postB = vi.spyOn(channelB, 'postMessage')
+      const tabA = new Storadapt(createMapAdapter(), {
+        sync: { target: false, channel: channelA }
+      })
+      // eslint-disable-next-line no-new
+      new Storadapt(createMapAdapter(), {
+        sync: { target: false, channel: channelB }
+      })
+
+      tabA.set('a', 1)
+
+      expect(postA).toHaveBeenCalledOnce()
+      expect(postB).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createBrowserStoradapt', () => {
+    it('should listen to window storage events when sync is enabled', () => {
+      const fakeWindow = createFakeWindow()
+      const store = new Map<string, string>()
+      const localStorage = createMapAdapter(store)
+      Object.defineProperty(global, 'window', {
+        value: {
+          ...fakeWindow,
+          localStorage: {
+            ...localStorage,
+            get length() {
+              return store.size
+            }
+          }
+        },
+        writable: true,
+        configurable: true
+      })
+
+      const storage = createBrowserStoradapt('localStorage', { sync: true })
+      const callback = vi.fn()
+      storage.watch('theme', callback)
+
+      fakeWindow.dispatch({
+        key: 'theme',
+        oldValue: null,
+        newValue: 'dark',
+        storageArea: (window as any).localStorage
+      })
+
+      expect(callback).toHaveBeenCalledWith('dark', null, expect.any(Object))
+      storage.destroy()
+      expect(fakeWindow.listeners.size).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createMemoryStorageAdapter } from '../src/adapter'
+import { Storadapt } from '../src/storage'
+import { createTieredAdapter } from '../src/tiered-storage'
+
+const keysOf = (adapter: { length: () => number; key: (i: number) => any }) =>
+  Array.from({ length: adapter.length() }, (_, i) => adapter.key(i))
+
+describe('createTieredAdapter', () => {
+  let memory: ReturnType<typeof createMemoryStorageAdapter>
+  let session: ReturnType<typeof createMemoryStorageAdapter>
+  let local: ReturnType<typeof createMemoryStorageAdapter>
+
+  beforeEach(() => {
+    memory = createMemoryStorageAdapter()
+    session = createMemoryStorageAdapter()
+    local = createMemoryStorageAdapter()
+  })
+
+  it('should reject invalid tiers and routes', () => {
+    expect(() => createTieredAdapter([])).toThrow(TypeError)
+    expect(() =>
+      createTieredAdapter([memory, local], {
+        routes: [{ match: 'a', tier: 2 }]
+      })
+    ).toThrow(RangeError)
+  })
+
+  describe('write-through', () => {
+    it('should write and remove on every tier', () => {
+      const adapter = createTieredAdapter([memory, session, local])
+
+      adapter.setItem('a', '1')
+      expect([memory, session, local].map((t) => t.getItem('a'))).toEqual([
+        '1',
+        '1',
+        '1'
+      ])
+
+      adapter.removeItem('a')
+      expect([memory, session, local].map((t) => t.getItem('a'))).toEqual([
+        null,
+        null,
+        null
+      ])
+    })
+
+    it('should read through and promote values', () => {
+      local.setItem('a', '1')
+      const adapter = createTieredAdapter([memory, session, local])
+
+      expect(adapter.getItem('a')).toBe('1')
+      expect(memory.getItem('a')).toBe('1')
+      expect(session.getItem('a')).toBe('1')
+    })
+
+    it('should not promote when disabled', () => {
+      local.setItem('a', '1')
+      const adapter = createTieredAdapter([memory, local], { promote: false })
+
+      expect(adapter.getItem('a')).toBe('1')
+      expect(memory.getItem('a')).toBeNull()
+    })
+
+    it('should leave upper tiers untouched when the lowest write fails', () => {
+      local = createMemoryStorageAdapter({}, { maxSize: 10 })
+      const adapter = createTieredAdapter([memory, local])
+      adapter.setItem('a', '1')
+
+      expect(() => adapter.setItem('a', 'a long value')).toThrow()
+      expect(memory.getItem('a')).toBe('1')
+      expect(adapter.getItem('a')).toBe('1')
+    })
+
+    it('should drop stale copies from upper tiers that are full', () => {
+      memory = createMemoryStorageAdapter({}, { maxSize: 10 })
+      const adapter = createTieredAdapter([memory, local])
+      adapter.setItem('a', '1')
+
+      adapter.setItem('a', 'a long value')
+
+      expect(memory.getItem('a')).toBeNull()
+      expect(adapter.getItem('a')).toBe('a long value')
+    })
+  })
+
+  describe('routes', () => {
+    it('should store keys down to their route tier', () => {
+      const adapter = createTieredAdapter([memory, session, local], {
+        routes: [
+          { match: 'tmp:', tier: 0 },
+          { match: /^draft-/, tier: 1 }
+        ]
+      })
+
+      adapter.setItem('tmp:a', '1')
+      adapter.setItem('draft-b', '2')
+      adapter.setItem('c', '3')
+
+      expect(keysOf(memory)).toEqual(['tmp:a', 'draft-b', 'c'])
+      expect(keysOf(session)).toEqual(['draft-b', 'c'])
+      expect(keysOf(local)).toEqual(['c'])
+    })
+
+    it('should ignore copies below the route tier', () => {
+      local.setItem('tmp:a', 'stale')
+      const adapter = createTieredAdapter([memory, local], {
+        routes: [{ match: 'tmp:', tier: 0 }]
+      })
+
+      expect(adapter.getItem('tmp:a')).toBeNull()
+      expect(adapter.length()).toBe(0)
+    })
+  })
+
+  describe('keys', () => {
+    it('should enumerate the union of the tiers without duplicates', () => {
+      memory.setItem('a', '1')
+      session.setItem('b', '2')
+      local.setItem('a', '1')
+      local.setItem('c', '3')
+      const adapter = createTieredAdapter([memory, session, local])
+
+      expect(adapter.length()).toBe(3)
+      expect(keysOf(adapter)).toEqual(['a', 'b', 'c'])
+      expect(adapter.key(3)).toBeNull()
+    })
+
+    it('should clear every tier', () => {
+      memory.setItem('a', '1')
+      local.setItem('b', '2')
+      const adapter = createTieredAdapter([memory, local])
+
+      adapter.clear()
+
+      expect(adapter.length()).toBe(0)
+      expect(local.length()).toBe(0)
+    })
+  })
+
+  describe('write-back', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should write the first tier and update lower tiers later', () => {
+      const adapter = createTieredAdapter([memory, local], {
+        write: 'back',
+        writeBack: { delay: 100, flushOnExit: false }
+      })
+
+      adapter.setItem('a', '1')
+      expect(memory.getItem('a')).toBe('1')
+      expect(local.getItem('a')).toBeNull()
+
+      vi.advanceTimersByTime(100)
+      expect(local.getItem('a')).toBe('1')
+      adapter.destroy()
+    })
+
+    it('should hide pending removals', () => {
+      local.setItem('a', '1')
+      const adapter = createTieredAdapter([memory, local], {
+        write: 'back',
+        writeBack: { flushOnExit: false }
+      })
+
+      adapter.removeItem('a')
+
+      expect(adapter.getItem('a')).toBeNull()
+      expect(adapter.length()).toBe(0)
+      expect(local.getItem('a')).toBe('1')
+
+      adapter.flush()
+      expect(local.getItem('a')).toBeNull()
+      adapter.destroy()
+    })
+
+    it('should keep failed writes pending', () => {
+      local = createMemoryStorageAdapter({}, { maxSize: 10 })
+      const adapter = createTieredAdapter([memory, local], {
+        write: 'back',
+        writeBack: { flushOnExit: false }
+      })
+
+      adapter.setItem('a', 'a long value')
+      expect(() => adapter.flush()).toThrow()
+      expect(adapter.getItem('a')).toBe('a long value')
+
+      local.clear()
+      adapter.removeItem('a')
+      adapter.flush()
+      expect(adapter.getItem('a')).toBeNull()
+      adapter.destroy()
+    })
+
+    it('should write first-tier routes immediately', () => {
+      const adapter = createTieredAdapter([memory, local], {
+        write: 'back',
+        routes: [{ match: 'tmp:', tier: 0 }],
+        writeBack: { flushOnExit: false }
+      })
+
+      adapter.setItem('tmp:a', '1')
+      adapter.flush()
+
+      expect(memory.getItem('tmp:a')).toBe('1')
+      expect(local.getItem('tmp:a')).toBeNull()
+      adapter.destroy()
+    })
+
+    it('should apply pending writes on destroy', () => {
+      const adapter = createTieredAdapter([memory, local], {
+        write: 'back',
+        writeBack: { flushOnExit: false }
+      })
+
+      adapter.setItem('a', '1')
+      adapter.destroy()
+
+      expect(local.getItem('a')).toBe('1')
+    })
+  })
+
+  it('should back a Storadapt routing keys by namespace', () => {
+    const adapter = createTieredAdapter([memory, local], {
+      routes: [{ match: 'session:', tier: 0 }]
+    })
+    const storage = new Storadapt(adapter)
+
+    storage.set('user', { name: 'Alice' })
+    storage.namespace('session').set('token', 'abc')
+
+    expect(new Storadapt(local).get('user.name')).toBe('Alice')
+    expect(local.getItem('session:token')).toBeNull()
+    expect(storage.namespace('session').get('token')).toBe('abc')
+    expect(storage.length).toBe(2)
+    expect(storage.isPersistent).toBe(false)
+  })
+})
@@ -0,0 +1,151 @@
+import type { DeepPath, PathValue, StorageAdapter } from '../src/types'
+
+import { describe, expectTypeOf, it } from 'vitest'
+
+import { createStoradapt } from '../src/index'
+import { Storadapt } from '../src/storage'
+
+interface User {
+  name: string
+  age?: number
+  infos: { name: string; tags?: string[] }[]
+  address?: { city: string }
+  createdAt: Date
+}
+
+interface AppSchema {
+  user: User
+  theme: 'light' | 'dark'
+  matrix: number[][]
+  pair: [string, number]
+}
+
+const store = new Map<string, string>()
+const adapter: StorageAdapter = {
+  getItem: (key) => store.get(key) ?? null,
+  setItem: (key, value) => {
+    store.set(key, value)
+  },
+  removeItem: (key) => {
+    store.delete(key)
+  },
+  clear: () => store.clear(),
+  length: () => store.size,
+  key: (index) => Array.from(store.keys())[index] ?? null
+}
+
+describe('Typed key schema', () => {
+  const storage = createStoradapt<AppSchema>(adapter)
+
+  it('should infer values of keys and deep paths', () => {
+    expectTypeOf(storage.get('user')).toEqualTypeOf<User | null>()
+    expectTypeOf(storage.get('theme')).toEqualTypeOf<'light' | 'dark' | null>()
+    expectTypeOf(storage.get('user.infos.0.name')).toEqualTypeOf<
+      string | null
+    >()
+    expectTypeOf(storage.get('user.createdAt')).toEqualTypeOf<Date | null>()
+  })
+
+  it('should type nested arrays and tuples', () => {
+    expectTypeOf(storage.get('matrix.0')).toEqualTypeOf<number[] | null>()
+    expectTypeOf(storage.get('matrix.1.2')).toEqualTypeOf<number | null>()
+    expectTypeOf(storage.get('pair.0')).toEqualTypeOf<string | null>()
+    expectTypeOf(storage.get('pair.1')).toEqualTypeOf<number | null>()
+    expectTypeOf(storage.get('user.infos.0.tags.1')).toEqualTypeOf<
+      string | null
+    >()
+  })
+
+  it('should keep optional properties optional', () => {
+    expectTypeOf(storage.get('user.age')).toEqualTypeOf<
+      number | undefined | null
+    >()
+    expectTypeOf(storage.get('user.address.city')).toEqualTypeOf<
+      string | null
+    >()
+
+    storage.set('user.age', undefined)
+    storage.remove('user.address')
+  })
+
+  it('should type-check values written to deep paths', () => {
+    storage.set('user.infos.0.name', 'Alice')
+    storage.set('theme', 'dark', { ttl: 1000 })
+
+    // @ts-expect-error wrong value type
+    storage.set('user.infos.0.name', 42)
+    // @ts-expect-error not one of the literal values
+    storage.set('theme', 'blue')
+  })
+
+  it('should reject unknown keys and paths', () => {
+    // @ts-expect-error unknown key
+    storage.get('unknown')
+    // @ts-expect-error unknown deep path
+    storage.set('user.nickname', 'Al')
+    // @ts-expect-error paths do not go into dates
+    storage.has('user.createdAt.time')
+    // @ts-expect-error explicit value types need an untyped store
+    storage.get<number>('theme')
+  })
+
+  it('should type array helpers', () => {
+    storage.push('user.infos', { name: 'Work' })
+    storage.push('user.infos.0.tags', 'a', 'b')
+    expectTypeOf(storage.pop('matrix')).toEqualTypeOf<number[] | null>()
+    storage.removeWhere('user.infos', (info) => {
+      expectTypeOf(info).toEqualTypeOf<{ name: string; tags?: string[] }>()
+      return false
+    })
+
+    // @ts-expect-error wrong item type
+    storage.push('user.infos.0.tags', 42)
+    // @ts-expect-error not an array
+    storage.push('user.name', 'x')
+  })
+
+  it('should type merge and update', () => {
+    storage.merge('user', { address: { city: 'Paris' }, infos: [] })
+    storage.update('user.infos', (infos) => {
+      expectTypeOf(infos).toEqualTypeOf<User['infos'] | null>()
+      return [...(infos ?? []), { name: 'Home' }]
+    })
+
+    // @ts-expect-error wrong nested type
+    storage.merge('user', { address: { city: 42 } })
+    // @ts-expect-error wrong return type
+    storage.update('theme', () => 'blue')
+  })
+
+  it('should type watch callbacks', () => {
+    storage.watch('user.name', (newValue, oldValue) => {
+      expectTypeOf(newValue).toEqualTypeOf<string | null>()
+      expectTypeOf(oldValue).toEqualTypeOf<string | null>()
+    })
+  })
+
+  it('should type namespaces with their own schema', () => {
+    const checkout = storage.namespace<{ cart: string[] }>('checkout')
+
+    expectTypeOf(checkout.get('cart.0')).toEqualTypeOf<string | null>()
+    // @ts-expect-error key of the parent schema
+    checkout.get('user')
+  })
+
+  it('should keep untyped stores permissive', () => {
+    const untyped = new Storadapt(adapter)
+
+    expectTypeOf(untyped.get('anything.at.all')).toBeAny()
+    expectTypeOf(untyped.get<User>('user')).toEqualTypeOf<User | null>()
+    untyped.set('anything', { at: 'all' })
+  })
+
+  it('should expose the path helpers', () => {
+    expectTypeOf<DeepPath<{ a: { b: number[] } }>>().toEqualTypeOf<
+      'a' | 'a.b' | `a.b.${number}`
+    >()
+    expectTypeOf<PathValue<AppSchema, 'user.infos'>>().toEqualTypeOf<
+      User['infos']
+    >()
+  })
+})
@@ -1,15 +1,26 @@
 import superjson from 'superjson'
 import { describe, expect, it } from 'vitest'
 
+import { jsonSerializer } from '../src/serializer'
 import {
+  deepMerge,
   deserialize,
+  ENVELOPE_KEY,
   isArrayIndex,
+  isEqual,
+  isExpired,
   isObject,
+  isQuotaExceededError,
   isString,
   isSuperJsonFormat,
   parsePath,
+  resolveExpiresAt,
   serialize,
-  traversePath
+  splitKey,
+  stringifyPath,
+  traversePath,
+  unwrapEntry,
+  wrapEntry
 } from '../src/util'
 
 describe('Utility Functions', () => {
@@ -97,6 +108,10 @@ describe('Utility Functions', () => {
       expect(isSuperJsonFormat(superJsonStr)).toBe(true)
     })
 
+    it('should reject objects with extra keys besides json and meta', () => {
+      expect(isSuperJsonFormat('{"json":1,"name":"x"}')).toBe(false)
+    })
+
     it('should reject plain JSON', () => {
       expect(isSuperJsonFormat('{"a":1}')).toBe(false)
       expect(isSuperJsonFormat('[1,2,3]')).toBe(false)
@@ -156,12 +171,149 @@ describe('Utility Functions', () => {
       expect(deserialize(null)).toBeNull()
     })
 
+    it('should round-trip strings that look like JSON', () => {
+      expect(deserialize(serialize('123'))).toBe('123')
+      expect(deserialize(serialize('{"json":1}'))).toBe('{"json":1}')
+    })
+
+    it('should use the given serializer', () => {
+      expect(serialize({ a: 1 }, jsonSerializer)).toBe('{"a":1}')
+      expect(deserialize('{"json":1}', jsonSerializer)).toEqual({ json: 1 })
+    })
+
     it('should return non-string input directly', () => {
       const input = { a: 1 } as any
       expect(deserialize(input)).toBe(input)
     })
   })
 
+  describe('isEqual', () => {
+    it('should compare primitives and dates', () => {
+      expect(isEqual(1, 1)).toBe(true)
+      expect(isEqual(Number.NaN, Number.NaN)).toBe(true)
+      expect(isEqual('a', 'b')).toBe(false)
+      expect(isEqual(new Date(1), new Date(1))).toBe(true)
+      expect(isEqual(null, undefined)).toBe(false)
+    })
+
+    it('should compare arrays and objects deeply', () => {
+      expect(isEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+      expect(isEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false)
+      expect(isEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false)
+      expect(isEqual([1, 2], [1, 2, 3])).toBe(false)
+    })
+  })
+
+  describe('deepMerge', () => {
+    it('should merge plain objects recursively', () => {
+      const target = { a: 1, nested: { b: 2, c: 3 }, date: new Date(0) }
+      const merged = deepMerge(target, {
+        nested: { c: 4 },
+        date: new Date(1),
+        skipped: undefined
+      })
+
+      expect(merged).toEqual({
+        a: 1,
+        nested: { b: 2, c: 4 },
+        date: new Date(1)
+      })
+      expect('skipped' in merged).toBe(false)
+      // Inputs are left untouched
+      expect(target.nested.c).toBe(3)
+    })
+
+    it('should combine arrays according to the strategy', () => {
+      const target = { list: [{ a: 1 }, { a: 2 }] }
+      const source = { list: [{ b: 1 }] }
+
+      expect(deepMerge(target, source).list).toEqual([{ b: 1 }])
+      expect(deepMerge(target, source, 'concat').list).toEqual([
+        { a: 1 },
+        { a: 2 },
+        { b: 1 }
+      ])
+      expect(deepMerge(target, source, 'byIndex').list).toEqual([
+        { a: 1, b: 1 },
+        { a: 2 }
+      ])
+    })
+
+    it('should skip undefined items when merging by index', () => {
+      const target = { list: [{ x: 1 }, { y: 1 }] }
+      const source = { list: [undefined, { y: 2 }] }
+
+      expect(deepMerge(target, source, 'byIndex').list).toEqual([
+        { x: 1 },
+        { y: 2 }
+      ])
+    })
+
+    it('should replace values of different types', () => {
+      expect(deepMerge(null, { a: 1 })).toEqual({ a: 1 })
+      expect(deepMerge({ a: 1 }, [1])).toEqual([1])
+      expect(deepMerge('text', 2)).toBe(2)
+    })
+  })
+
+  describe('wrapEntry & unwrapEntry', () => {
+    it('should not wrap values without metadata', () => {
+      expect(wrapEntry({ a: 1 })).toEqual({ a: 1 })
+      expect(wrapEntry('text', { expiresAt: undefined })).toBe('text')
+    })
+
+    it('should wrap values with metadata', () => {
+      const wrapped = wrapEntry('text', { expiresAt: 100 })
+      expect(wrapped).toEqual({
+        [ENVELOPE_KEY]: { expiresAt: 100 },
+        value: 'text'
+      })
+      expect(unwrapEntry(wrapped)).toEqual({
+        value: 'text',
+        meta: { expiresAt: 100 }
+      })
+    })
+
+    it('should escape objects owning the envelope key', () => {
+      const value = { [ENVELOPE_KEY]: { expiresAt: 1 } }
+      expect(unwrapEntry(wrapEntry(value))).toEqual({ value, meta: {} })
+    })
+
+    it('should unwrap plain values with empty metadata', () => {
+      expect(unwrapEntry(42)).toEqual({ value: 42, meta: {} })
+      expect(unwrapEntry(null)).toEqual({ value: null, meta: {} })
+    })
+  })
+
+  describe('isExpired & resolveExpiresAt', () => {
+    it('should compare expiresAt with now', () => {
+      expect(isExpired({}, 1000)).toBe(false)
+      expect(isExpired({ expiresAt: 1000 }, 999)).toBe(false)
+      expect(isExpired({ expiresAt: 1000 }, 1000)).toBe(true)
+    })
+
+    it('should resolve ttl before expiresAt', () => {
+      expect(resolveExpiresAt(undefined, 1000)).toBeUndefined()
+      expect(resolveExpiresAt({ ttl: 50, expiresAt: 1 }, 1000)).toBe(1050)
+      expect(resolveExpiresAt({ expiresAt: 2000 }, 1000)).toBe(2000)
+      expect(resolveExpiresAt({ expiresAt: new Date(3000) }, 1000)).toBe(3000)
+    })
+  })
+
+  describe('isQuotaExceededError', () => {
+    it('should detect quota errors across browsers', () => {
+      const named = (name: string) => Object.assign(new Error(), { name })
+
+      expect(isQuotaExceededError(named('QuotaExceededError'))).toBe(true)
+      expect(isQuotaExceededError(named('NS_ERROR_DOM_QUOTA_REACHED'))).toBe(
+        true
+      )
+      expect(isQuotaExceededError({ code: 22 })).toBe(true)
+      expect(isQuotaExceededError(new Error('Storage error'))).toBe(false)
+      expect(isQuotaExceededError(null)).toBe(false)
+    })
+  })
+
   describe('parsePath', () => {
     it('should parse simple path', () => {
       expect(parsePath('user.name')).toEqual(['user', 'name'])
@@ -191,6 +343,65 @@ describe('Utility Functions', () => {
     it('should handle empty path', () => {
       expect(parsePath('')).toEqual([])
     })
+
+    it('should parse bracket indexes and quoted keys', () => {
+      expect(parsePath('users[0].name')).toEqual(['users', '0', 'name'])
+      expect(parsePath('cfg["api.example.com"][0]')).toEqual([
+        'cfg',
+        'api.example.com',
+        '0'
+      ])
+      expect(parsePath(`a['b]c']`)).toEqual(['a', 'b]c'])
+      expect(parsePath('["my.key"].a')).toEqual(['my.key', 'a'])
+      expect(parsePath('a[""]')).toEqual(['a', ''])
+    })
+
+    it('should unescape backslash escapes', () => {
+      expect(parsePath('emails.alice@example\\.com')).toEqual([
+        'emails',
+        'alice@example.com'
+      ])
+      expect(parsePath('a["say \\"hi\\""]')).toEqual(['a', 'say "hi"'])
+      expect(parsePath('back\\\\slash')).toEqual(['back\\slash'])
+    })
+
+    it('should take array-form paths literally', () => {
+      expect(parsePath(['cfg', 'api.example.com', 0])).toEqual([
+        'cfg',
+        'api.example.com',
+        '0'
+      ])
+    })
+
+    it('should reject malformed paths', () => {
+      expect(() => parsePath('a[0')).toThrow('unclosed bracket')
+      expect(() => parsePath('a["b]')).toThrow('unclosed bracket')
+      expect(() => parsePath('a[]')).toThrow('empty brackets')
+      expect(() => parsePath('a\\')).toThrow('dangling escape')
+    })
+  })
+
+  describe('splitKey & stringifyPath', () => {
+    it('should split the storage key from the deep path', () => {
+      expect(splitKey('user')).toEqual({ storageKey: 'user', pathSegments: [] })
+      expect(splitKey('user.infos[0]')).toEqual({
+        storageKey: 'user',
+        pathSegments: ['infos', '0']
+      })
+      expect(splitKey(['my.key'])).toEqual({
+        storageKey: 'my.key',
+        pathSegments: []
+      })
+    })
+
+    it('should quote segments that need it', () => {
+      const segments = ['cfg', 'api.example.com', '0', 'say "hi"']
+      const path = stringifyPath(segments)
+
+      expect(path).toBe('cfg["api.example.com"].0["say \\"hi\\""]')
+      expect(parsePath(path)).toEqual(segments)
+      expect(stringifyPath('a.b')).toBe('a.b')
+    })
   })
 
   describe('traversePath', () => {
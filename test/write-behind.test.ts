@@ -0,0 +1,261 @@
+import type { StorageAdapter } from '../src/types'
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { StorageQuotaError } from '../src/errors'
+import { Storadapt } from '../src/storage'
+import { createWriteBehind } from '../src/write-behind'
+
+describe('Write-Behind', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('createWriteBehind', () => {
+    it('should flush once writes pause', () => {
+      const flush = vi.fn()
+      const scheduler = createWriteBehind(
+        { delay: 100, flushOnExit: false },
+        flush
+      )
+
+      scheduler.schedule()
+      vi.advanceTimersByTime(80)
+      scheduler.schedule()
+      vi.advanceTimersByTime(80)
+      expect(flush).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(20)
+      expect(flush).toHaveBeenCalledOnce()
+    })
+
+    it('should flush after maxWait while writes keep coming', () => {
+      const flush = vi.fn()
+      const scheduler = createWriteBehind(
+        { delay: 100, maxWait: 250, flushOnExit: false },
+        flush
+      )
+
+      for (let i = 0; i < 5; i++) {
+        scheduler.schedule()
+        vi.advanceTimersByTime(60)
+      }
+
+      expect(flush).toHaveBeenCalledOnce()
+    })
+
+    it('should flush pending writes on beforeExit', () => {
+      const flush = vi.fn()
+      const before = process.listeners('beforeExit')
+      const scheduler = createWriteBehind({}, flush)
+      expect(process.listeners('beforeExit')).toEqual(before)
+
+      scheduler.schedule()
+      const [onExit] = process
+        .listeners('beforeExit')
+        .filter((listener) => !before.includes(listener))
+
+      onExit(0)
+      expect(flush).toHaveBeenCalledOnce()
+      expect(process.listeners('beforeExit')).toEqual(before)
+
+      scheduler.schedule()
+      scheduler.destroy()
+      expect(process.listeners('beforeExit')).toEqual(before)
+    })
+
+    it('should share one exit listener between schedulers', () => {
+      const before = process.listeners('beforeExit').length
+      const flushes = [vi.fn(), vi.fn(), vi.fn()]
+      const schedulers = flushes.map((flush) => createWriteBehind({}, flush))
+
+      schedulers.forEach((scheduler) => scheduler.schedule())
+      expect(process.listeners('beforeExit')).toHaveLength(before + 1)
+
+      // Flushed by its timer, no longer registered
+      vi.advanceTimersByTime(300)
+      schedulers[0].schedule()
+      process.listeners('beforeExit').at(-1)!(0)
+
+      expect(flushes[0]).toHaveBeenCalledTimes(2)
+      expect(flushes[1]).toHaveBeenCalledOnce()
+      expect(process.listeners('beforeExit')).toHaveLength(before)
+    })
+
+    it('should flush on pagehide', () => {
+      const listeners = new Map<string, () => void>()
+      vi.stubGlobal('window', {
+        addEventListener: (type: string, listener: () => void) =>
+          listeners.set(type, listener),
+        removeEventListener: (type: string) => listeners.delete(type)
+      })
+      const flush = vi.fn()
+      const scheduler = createWriteBehind({}, flush)
+
+      scheduler.schedule()
+      listeners.get('pagehide')?.()
+      expect(flush).toHaveBeenCalledOnce()
+      expect(listeners.size).toBe(0)
+
+      scheduler.schedule()
+      scheduler.destroy()
+      expect(listeners.size).toBe(0)
+      vi.unstubAllGlobals()
+    })
+  })
+
+  describe('Storadapt with writeBehind', () => {
+    let store: Map<string, string>
+    let adapter: StorageAdapter
+    let storage: Storadapt
+
+    beforeEach(() => {
+      store = new Map()
+      adapter = {
+        getItem: (key) => store.get(key) ?? null,
+        setItem: vi.fn((key: string, value: string) => {
+          store.set(key, value)
+        }),
+        removeItem: (key) => {
+          store.delete(key)
+        },
+        clear: () => store.clear(),
+        length: () => store.size,
+        key: (index) => Array.from(store.keys())[index] ?? null
+      }
+      storage = new Storadapt(adapter, {
+        writeBehind: { delay: 100, flushOnExit: false }
+      })
+    })
+
+    afterEach(() => {
+      storage.destroy()
+    })
+
+    it('should coalesce writes and persist them after the delay', () => {
+      storage.set('draft', { title: '' })
+      storage.set('draft.title', 'H')
+      storage.set('draft.title', 'Hi')
+
+      expect(adapter.setItem).not.toHaveBeenCalled()
+      expect(storage.get('draft.title')).toBe('Hi')
+
+      vi.advanceTimersByTime(100)
+
+      expect(adapter.setItem).toHaveBeenCalledOnce()
+      expect(new Storadapt(adapter).get('draft')).toEqual({ title: 'Hi' })
+    })
+
+    it('should see pending removals', () => {
+      storage.set('a', 1)
+      storage.flush()
+
+      storage.remove('a')
+      expect(storage.has('a')).toBe(false)
+      expect(store.has('a')).toBe(true)
+
+      storage.flush()
+      expect(store.has('a')).toBe(false)
+    })
+
+    it('should emit change events immediately', () => {
+      const listener = vi.fn()
+      storage.on('change', listener)
+
+      storage.set('count', 1)
+      storage.set('count', 2)
+
+      expect(listener).toHaveBeenLastCalledWith({
+        key: 'count',
+        oldValue: 1,
+        newValue: 2,
+        source: 'local'
+      })
+    })
+
+    it('should flush before enumerating keys', () => {
+      storage.set('a', 1)
+      storage.set('b', 2)
+
+      expect(storage.length).toBe(2)
+      expect(storage.key(1)).toBe('b')
+    })
+
+    it('should drop pending writes on clear', () => {
+      storage.set('a', 1)
+      storage.clear()
+
+      vi.advanceTimersByTime(100)
+
+      expect(adapter.setItem).not.toHaveBeenCalled()
+      expect(storage.get('a')).toBeNull()
+    })
+
+    it('should not let failed deep writes change pending values', () => {
+      storage.defineSchema('user', (value: any) => {
+        if (typeof value?.name !== 'string') throw new Error('name required')
+        return value
+      })
+      storage.set('user', { name: 'Alice' })
+
+      storage.set('user.name', 42)
+
+      expect(storage.get('user')).toEqual({ name: 'Alice' })
+    })
+
+    it('should not share pending values with callers', () => {
+      const draft = { title: 'Hi' }
+      storage.set('draft', draft)
+      draft.title = 'Changed'
+
+      const read = storage.get('draft')
+      read.title = 'Mutated'
+      storage.flush()
+
+      expect(storage.get('draft')).toEqual({ title: 'Hi' })
+      expect(new Storadapt(adapter).get('draft')).toEqual({ title: 'Hi' })
+    })
+
+    it('should throw failed writes from flush', () => {
+      const quotaError = new DOMException('full', 'QuotaExceededError')
+      vi.mocked(adapter.setItem).mockImplementation((key) => {
+        if (key === 'big') throw quotaError
+      })
+
+      storage.set('big', 'x'.repeat(100))
+      storage.set('small', 'y')
+
+      expect(() => storage.flush()).toThrow(StorageQuotaError)
+      expect(adapter.setItem).toHaveBeenCalledWith('small', 'y')
+    })
+
+    it('should keep failed writes pending and retry them', () => {
+      const spy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(adapter.setItem).mockImplementationOnce(() => {
+        throw new DOMException('full', 'QuotaExceededError')
+      })
+
+      storage.set('big', 'x'.repeat(100))
+      vi.advanceTimersByTime(100)
+
+      expect(spy).toHaveBeenCalled()
+      expect(store.has('big')).toBe(false)
+      expect(storage.get('big')).toBe('x'.repeat(100))
+
+      vi.advanceTimersByTime(100)
+      expect(store.has('big')).toBe(true)
+      spy.mockRestore()
+    })
+
+    it('should persist pending writes on destroy', () => {
+      storage.set('a', 1)
+      storage.destroy()
+
+      expect(store.has('a')).toBe(true)
+    })
+  })
+})
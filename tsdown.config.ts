@@ -11,7 +11,9 @@ const createConfigs = (base: UserConfig, configs: UserConfig[]) => {
 }
 
 const baseConfig: UserConfig = {
-  entry: './src/index.ts',
+  // `node` holds the Node.js-only adapters, keeping `node:*` imports
+  // out of browser bundles
+  entry: ['./src/index.ts', './src/node.ts'],
   clean: true
 }
 